@@ -0,0 +1,266 @@
+// public/sw.js
+// CycSafe service worker：
+//   1) 預先快取 app shell（index.html + 打包後的 JS/CSS + icons），離線也能冷啟動
+//   2) 接收 Web Push（AlertLite 形狀）→ 系統通知；點擊通知深連結到該告警
+/* eslint-env serviceworker */
+
+// 改版時把版本號 +1，activate 會清掉舊的 shell 快取
+const SHELL_CACHE = "cs-shell-v1";
+const STATE_CACHE = "cs-sw-state";
+
+// main.tsx 用 `${BASE_URL}sw.js` 註冊，scope 就是部署的路徑（不一定是網域根目錄）；所有網址都相對它
+const SCOPE = self.registration.scope;
+const scoped = (path) => new URL(path.replace(/^\//, ""), SCOPE).href;
+
+const INDEX_URL = scoped("");
+const STATE_URL = scoped("__cs/state");
+const ASSETS_PATH = new URL(scoped("assets/")).pathname;
+
+const SHELL_URLS = [
+  INDEX_URL,
+  scoped("manifest.webmanifest"),
+  scoped("icons/icon.svg"),
+  scoped("icons/icon-192.png"),
+  scoped("icons/icon-512.png"),
+];
+
+// 和 notify.ts 相同的預設：90 秒冷卻
+const DEFAULT_STATE = { cooldownS: 90, cooldownUntil: 0 };
+
+// ===== App shell =====
+
+/** 打包後的檔名有 hash，SW 事先不知道：從 index.html 找出 <base>/assets/* 一起快取 */
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+
+  const html = await (await cache.match(INDEX_URL)).text();
+  const assets = Array.from(html.matchAll(/(?:src|href)="([^"]+)"/g), (m) => new URL(m[1], INDEX_URL))
+    .filter((u) => u.origin === self.location.origin && u.pathname.startsWith(ASSETS_PATH))
+    .map((u) => u.href);
+  if (assets.length) await cache.addAll([...new Set(assets)]);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys
+          .filter((k) => k.startsWith("cs-shell-") && k !== SHELL_CACHE)
+          .map((k) => caches.delete(k))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET") return;
+
+  const url = new URL(req.url);
+  // API（Lambda）、地圖圖磚等跨網域請求一律走網路；離線時由頁面顯示上次資料
+  if (url.origin !== self.location.origin) return;
+
+  // 頁面導覽：網路優先，失敗就回快取的 index.html（SPA 路由由前端處理）
+  if (req.mode === "navigate") {
+    event.respondWith(
+      (async () => {
+        try {
+          const res = await fetch(req);
+          if (res.ok) {
+            const cache = await caches.open(SHELL_CACHE);
+            await cache.put(INDEX_URL, res.clone());
+          }
+          return res;
+        } catch {
+          return (await caches.match(INDEX_URL)) || Response.error();
+        }
+      })()
+    );
+    return;
+  }
+
+  // 打包檔（檔名含 hash，不會變）：快取優先
+  if (url.pathname.startsWith(ASSETS_PATH)) {
+    event.respondWith(
+      (async () => {
+        const hit = await caches.match(req);
+        if (hit) return hit;
+        const res = await fetch(req);
+        if (res.ok) (await caches.open(SHELL_CACHE)).put(req, res.clone());
+        return res;
+      })()
+    );
+    return;
+  }
+
+  // 其他同網域靜態檔（icons、manifest）：有快取先用，背景更新
+  if (SHELL_URLS.includes(url.origin + url.pathname)) {
+    event.respondWith(
+      (async () => {
+        const cache = await caches.open(SHELL_CACHE);
+        const hit = await cache.match(req);
+        const update = fetch(req)
+          .then((res) => {
+            if (res.ok) cache.put(req, res.clone());
+            return res;
+          })
+          .catch(() => hit || Response.error());
+        return hit || update;
+      })()
+    );
+  }
+});
+
+// ===== 狀態（SW 沒有 localStorage，用 Cache Storage 存一個小 JSON）=====
+async function readState() {
+  try {
+    const cache = await caches.open(STATE_CACHE);
+    const res = await cache.match(STATE_URL);
+    return res ? { ...DEFAULT_STATE, ...(await res.json()) } : { ...DEFAULT_STATE };
+  } catch {
+    return { ...DEFAULT_STATE };
+  }
+}
+
+async function writeState(patch) {
+  const next = { ...(await readState()), ...patch };
+  const cache = await caches.open(STATE_CACHE);
+  await cache.put(STATE_URL, new Response(JSON.stringify(next), { headers: { "Content-Type": "application/json" } }));
+  return next;
+}
+
+// 頁面同步設定的冷卻秒數 / 頁面端觸發後的冷卻截止時間
+self.addEventListener("message", (event) => {
+  const d = event.data || {};
+  if (d.type === "cs:config") {
+    const patch = {};
+    if (Number.isFinite(d.cooldownS)) patch.cooldownS = d.cooldownS;
+    if (Number.isFinite(d.cooldownUntil)) patch.cooldownUntil = d.cooldownUntil;
+    event.waitUntil(writeState(patch));
+  }
+});
+
+// ===== 告警 → 通知（對應 notify.ts 的 severity 規則）=====
+function severityOf(alert) {
+  const s = String(alert.severity || "").toLowerCase();
+  if (s === "high") return "high";
+  if (s === "medium") return "medium";
+  return "none"; // low / 未知：不打擾
+}
+
+function titleOf(alert) {
+  const t = String(alert.incidentType || "");
+  if (t.toLowerCase().includes("weather") || String(alert.clusterId).startsWith("weather#")) {
+    return "Severe Weather Warning";
+  }
+  const label = t.replace(/_/g, " ").trim().toLowerCase();
+  return label ? label.charAt(0).toUpperCase() + label.slice(1) : "Incident";
+}
+
+function bodyOf(alert) {
+  if (alert.description) return String(alert.description);
+  const n = Number(alert.reportCount) || 0;
+  const where = alert.address ? ` near ${alert.address}` : " near you";
+  return `${n || "New"} report${n === 1 ? "" : "s"}${where}. Ride with caution.`;
+}
+
+/** App 內路由（頁面端 navigateTo 用）；開新視窗時再用 scoped() 轉成完整網址 */
+function alertUrl(alert) {
+  return `/alerts?alert=${encodeURIComponent(alert.clusterId)}`;
+}
+
+/** 驗證推播內容：至少要有 clusterId + expiresAt（和 parseAlert 一致） */
+function parsePush(data) {
+  if (!data || typeof data !== "object") return null;
+  const a = data.alert && typeof data.alert === "object" ? data.alert : data;
+  if (a.clusterId == null || !Number.isFinite(Number(a.expiresAt))) return null;
+  return { ...a, clusterId: String(a.clusterId), expiresAt: Number(a.expiresAt) };
+}
+
+/**
+ * 訂閱用 userVisibleOnly：背景收到推播卻沒有顯示通知，Chrome 會自己跳「已在背景更新」並可能撤銷訂閱。
+ * 不需要提醒的推播（過期、嚴重度不足、冷卻中）就靜音地放一則固定 tag 的通知（後來的會取代它）；
+ * 畫面上已經有 CycSafe 的通知就不用再放。
+ */
+async function showQuiet() {
+  const shown = await self.registration.getNotifications();
+  if (shown.length) return;
+  await self.registration.showNotification("CycSafe", {
+    body: "Alerts near you were updated.",
+    tag: "cs-quiet",
+    silent: true,
+    data: { url: "/alerts" },
+  });
+}
+
+async function handlePush(alert) {
+  const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+
+  // 有可見的分頁：交給頁面（notify.ts 負責震動 / 紅點 / 冷卻），避免重複通知
+  const visible = clients.filter((c) => c.visibilityState === "visible");
+  if (visible.length) {
+    if (alert && alert.expiresAt * 1000 > Date.now()) {
+      visible.forEach((c) => c.postMessage({ type: "cs:push", alert }));
+    }
+    return;
+  }
+
+  // 格式不對 / 已過期 / 嚴重度不足 / 冷卻中：不提醒，但仍要有通知（見 showQuiet）
+  if (!alert || alert.expiresAt * 1000 <= Date.now()) return showQuiet();
+  const sev = severityOf(alert);
+  if (sev === "none") return showQuiet();
+
+  const state = await readState();
+  if (Date.now() < state.cooldownUntil) return showQuiet();
+
+  const cooldownUntil = Date.now() + state.cooldownS * 1000;
+  await writeState({ cooldownUntil });
+  // 背景分頁也同步冷卻 + 更新清單
+  clients.forEach((c) => c.postMessage({ type: "cs:push", alert, cooldownUntil, notified: true }));
+
+  await self.registration.showNotification(titleOf(alert), {
+    body: bodyOf(alert),
+    tag: `cs-alert-${alert.clusterId}`, // 同一 cluster 只留最新一則
+    renotify: sev === "high",
+    requireInteraction: sev === "high",
+    vibrate: sev === "high" ? [80, 40, 80, 40, 140] : [60, 30, 60],
+    image: alert.photoUrls && alert.photoUrls[0] ? alert.photoUrls[0] : undefined,
+    data: { url: alertUrl(alert), clusterId: alert.clusterId },
+  });
+}
+
+self.addEventListener("push", (event) => {
+  let data = null;
+  try {
+    data = event.data ? event.data.json() : null;
+  } catch {
+    data = null;
+  }
+  event.waitUntil(handlePush(parsePush(data)));
+});
+
+// 點擊通知：已有分頁就導過去，否則開新分頁
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || "/alerts";
+
+  event.waitUntil(
+    (async () => {
+      const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      for (const c of clients) {
+        if (!c.url.startsWith(SCOPE)) continue;
+        // 交給 SPA 路由切頁（不整頁重載）
+        c.postMessage({ type: "cs:navigate", url });
+        return c.focus();
+      }
+      return self.clients.openWindow(scoped(url));
+    })()
+  );
+});
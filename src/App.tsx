@@ -5,16 +5,43 @@ import Home from "./pages/Home";
 import AlertsPage from "./pages/AlertsPage";
 import ReportIncident from "./pages/ReportIncident";
 import PlanRoutePage from "./pages/PlanRoutePage";
+import RouteDetailsPage from "./pages/RouteDetailsPage";
 import DataInsights from "./pages/DataInsights";
+import InsightsSummaryPage from "./pages/InsightsSummaryPage";
+import MapPage from "./pages/MapPage";
+import SettingsPage from "./pages/SettingsPage";
+import PlacesPage from "./pages/PlacesPage";
+import RidePage from "./pages/RidePage";
 import { startAlertsPolling, stopAlertsPolling } from "./services/alertsService";
+import { startRiskService, stopRiskService } from "./services/riskService";
+import { startReportQueue, stopReportQueue } from "./services/reportQueue";
+import { startPushService, stopPushService } from "./services/pushService";
 
 export default function App() {
+  // 共用風險服務：位置 + 風險 Lambda 輪詢（寫入 cs.address / cs.coords 並廣播）
+  useEffect(() => {
+    startRiskService();
+    return () => stopRiskService();
+  }, []);
+
   // 啟動「Clusters + Weather」合併輪詢（寫入 cs.alerts.* 並廣播）
   useEffect(() => {
     startAlertsPolling();
     return () => stopAlertsPolling();
   }, []);
 
+  // 離線回報佇列：連線恢復 / 回到前景時自動重送
+  useEffect(() => {
+    startReportQueue();
+    return () => stopReportQueue();
+  }, []);
+
+  // Service worker：背景推播 + 通知點擊深連結
+  useEffect(() => {
+    startPushService();
+    return () => stopPushService();
+  }, []);
+
   return (
     <Router>
       <Header />
@@ -23,8 +50,14 @@ export default function App() {
         <Route path="/alerts" element={<AlertsPage />} />
         <Route path="/report" element={<ReportIncident />} />
         <Route path="/plan-route" element={<PlanRoutePage />} />
+        <Route path="/plan-route/:id" element={<RouteDetailsPage />} />
         {/* insights route */}
         <Route path="/insights" element={<DataInsights />} />
+        <Route path="/insights/summary" element={<InsightsSummaryPage />} />
+        <Route path="/map" element={<MapPage />} />
+        <Route path="/settings" element={<SettingsPage />} />
+        <Route path="/places" element={<PlacesPage />} />
+        <Route path="/ride" element={<RidePage />} />
       </Routes>
     </Router>
   );
@@ -5,21 +5,28 @@ import weatherIcon from "../assets/weather.svg";
 import trafficIcon from "../assets/traffic.svg";
 import infrastructureIcon from "../assets/infrastructure.svg";
 import warningIcon from "../assets/warning.svg";
+import type { Priority } from "../lib/alerts";
 
 interface AlertItemProps {
+  id?: string;         // clusterId；用於深連結捲動（#alert-<id>）
   title: string;
   description: string;
   location: string;
   time: string;
-  priority: "CRITICAL" | "HIGH" | "MEDIUM" | "LOW";
+  priority: Priority;
+  distance?: string;   // 例如 "850 m"
+  highlighted?: boolean;
 }
 
 export default function AlertItem({
+  id,
   title,
   description,
   location,
   time,
   priority,
+  distance,
+  highlighted,
 }: AlertItemProps) {
   // 根據 priority 回傳不同圖標
   const getIcon = () => {
@@ -38,7 +45,10 @@ export default function AlertItem({
   };
 
   return (
-    <div className={`alert-item ${priority.toLowerCase()}`}>
+    <div
+      id={id ? `alert-${id}` : undefined}
+      className={`alert-item ${priority.toLowerCase()}${highlighted ? " highlighted" : ""}`}
+    >
       {/* Header 區塊 */}
       <div className="alert-header">
         <div className="alert-left">
@@ -59,7 +69,10 @@ export default function AlertItem({
 
       {/* Footer 區塊 */}
       <div className="alert-footer">
-        <span>{location}</span>
+        <span>
+          {location}
+          {distance ? ` · ${distance} away` : ""}
+        </span>
         <span>{time}</span>
       </div>
     </div>
@@ -0,0 +1,74 @@
+// src/components/AlertMarkers.tsx
+// 地圖上的告警標記：顏色看 incidentType、外框/大小看 severity；點擊開托盤同款卡片
+import { useMemo } from "react";
+import L from "leaflet";
+import { Marker, Popup } from "react-leaflet";
+import AlertTrayItem from "./AlertTrayItem";
+import { useAckedAlerts } from "../lib/ack";
+import { alertPosition, markerColor, sevToClass, type AlertLite } from "../lib/alerts";
+
+interface AlertMarkersProps {
+  alerts: AlertLite[];
+  now: number;                     // epoch seconds（倒數用）
+}
+
+const SIZE: Record<string, number> = { high: 24, medium: 20, low: 16 };
+
+// 同樣 severity + 顏色共用一個 icon；每次 render 都 new 的話 react-leaflet 會 setIcon 換掉標記 DOM，開著的 popup 會閃
+const iconCache = new Map<string, L.DivIcon>();
+
+function markerIcon(a: AlertLite) {
+  const sev = a.severity || "medium";
+  const color = markerColor(a);
+  const key = `${sev}|${color}`;
+  const hit = iconCache.get(key);
+  if (hit) return hit;
+
+  const size = SIZE[sev] ?? SIZE.medium;
+  const icon = L.divIcon({
+    className: `cs-marker ${sevToClass(sev)}`,
+    html: `<span class="cs-marker-dot" style="background:${color}"></span>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    popupAnchor: [0, -size / 2],
+  });
+  iconCache.set(key, icon);
+  return icon;
+}
+
+export default function AlertMarkers({ alerts, now }: AlertMarkersProps) {
+  const { acked, ack } = useAckedAlerts();
+
+  const placed = useMemo(
+    () =>
+      alerts
+        .map(a => ({ a, pos: alertPosition(a) }))
+        .filter((x): x is { a: AlertLite; pos: { lat: number; lng: number } } => x.pos !== null)
+        // position 陣列也要穩定，否則每次 render 都會 setLatLng
+        .map(({ a, pos }) => ({ a, pos, latlng: [pos.lat, pos.lng] as [number, number] })),
+    [alerts]
+  );
+
+  return (
+    <>
+      {placed.map(({ a, pos, latlng }) => (
+        <Marker
+          key={a.clusterId || `${pos.lat},${pos.lng}`}
+          position={latlng}
+          icon={markerIcon(a)}
+        >
+          <Popup className="cs-popup" maxWidth={380}>
+            <ul className="tray-list">
+              <AlertTrayItem
+                alert={a}
+                remaining={Math.max(0, Number(a.expiresAt || 0) - now)}
+                acked={!!acked[a.clusterId || ""]}
+                onAck={ack}
+              />
+            </ul>
+          </Popup>
+        </Marker>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,75 @@
+// src/components/AlertTrayItem.tsx
+// 單張告警卡片（托盤清單與地圖彈窗共用）
+import { isAckable, isWeather, sevToClass, titleOf, formatMMSS, type AlertLite } from "../lib/alerts";
+import { formatMeters } from "../lib/geo";
+import "./AlertTray.css";
+
+interface AlertTrayItemProps {
+  alert: AlertLite;
+  remaining: number;          // 剩餘秒數
+  acked: boolean;
+  onAck: (a: AlertLite) => void;
+}
+
+export default function AlertTrayItem({ alert: a, remaining, acked, onAck }: AlertTrayItemProps) {
+  const hideThumb = isWeather(a); // ⭐ 天氣一律不顯示縮圖
+  return (
+    <li className={`tray-item ${sevToClass(a.severity || "medium")} ${hideThumb ? "no-thumb" : ""}`}>
+      {/* 縮圖：天氣不顯示，其它有圖才顯示 */}
+      {!hideThumb && (
+        <div className="tray-thumb">
+          {a.photoUrls?.[0] ? (
+            <img src={a.photoUrls[0]} alt="evidence" />
+          ) : (
+            <div className="tray-thumb-empty">No image</div>
+          )}
+        </div>
+      )}
+
+      <div className="tray-content">
+        <div className="tray-row">
+          <span className={`tray-badge ${sevToClass(a.severity || "medium")}`}>
+            {(a.severity || "medium").toUpperCase()}
+          </span>
+          <span className="tray-title-2">{titleOf(a)}</span>
+        </div>
+
+        {/* 有 description（天氣/系統）就顯示；否則顯示原本狀態/數量 */}
+        {a.description ? (
+          <>
+            <div className="tray-desc">{a.description}</div>
+            {(a.address || a.agoText) && (
+              <div className="tray-desc small meta-right">
+                {a.address ? <span>{a.address}</span> : null}
+                {a.agoText ? <span>{a.agoText}</span> : null}
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="tray-desc">
+            {(a.status || "active")} · reports: {a.reportCount ?? 0}
+            {typeof a.ackCount === "number" ? ` · confirmed: ${a.ackCount}` : ""}
+          </div>
+        )}
+
+        <div className="tray-meta">
+          <span className="tray-countdown">
+            ⏳ {formatMMSS(remaining)}
+            {a.distanceM != null && <span className="tray-distance"> · 📍 {formatMeters(a.distanceM)} away</span>}
+          </span>
+          {isAckable(a) && (
+            <button
+              type="button"
+              className="tray-cta"
+              onClick={() => onAck(a)}
+              disabled={acked}
+              title={acked ? "Already confirmed" : "I saw this too"}
+            >
+              ✔️ Confirm
+            </button>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+}
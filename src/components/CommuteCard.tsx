@@ -0,0 +1,56 @@
+// src/components/CommuteCard.tsx
+// Home 的通勤摘要：第一段通勤的目前風險 + 沿線告警數，點了直接帶起訖點到 PlanRoutePage
+import { useEffect, useState } from "react";
+import FlatCard from "./FlatCard";
+import routeIcon from "../assets/route.svg";
+import type { AlertLite } from "../lib/alerts";
+import { load, on } from "../lib/bus";
+import { alertsOnCommute, commuteSamples, planRouteLink, useCommutes } from "../lib/commutes";
+import { maxRisk, usePlaceRisks } from "../lib/placeRisk";
+import { riskLabel, type RiskLabel } from "../lib/risk";
+import { useSettings } from "../lib/settings";
+
+const LEVEL_CLASS: Record<RiskLabel, string> = { LOW: "success", MEDIUM: "orange", HIGH: "danger" };
+
+export default function CommuteCard() {
+  const settings = useSettings();
+  const [commute] = useCommutes();
+  const samples = commute ? commuteSamples(commute) : [];
+  const risks = usePlaceRisks(samples);
+
+  const [alerts, setAlerts] = useState<AlertLite[]>(() => load("alerts.list", []));
+  useEffect(() => on("alerts:list", ({ list }) => setAlerts(list)), []);
+
+  if (!commute) {
+    return (
+      <FlatCard
+        title="Your Commute"
+        subtitle="Save the trips you ride every day"
+        icon={<img src={routeIcon} alt="commute" />}
+        actionText="Add Commute"
+        actionLink="/places"
+        links={[{ text: "Live risk & alerts on your route", className: "info" }]}
+      />
+    );
+  }
+
+  const score = maxRisk(risks, samples);
+  const level = score == null ? undefined : riskLabel(score, settings);
+  const onRoute = alertsOnCommute(alerts, commute).length;
+  const riskText = level ? `${level[0]}${level.slice(1).toLowerCase()} risk` : "Checking risk…";
+  const alertsText = `${onRoute} alert${onRoute === 1 ? "" : "s"} on route`;
+
+  return (
+    <FlatCard
+      title={commute.name}
+      subtitle={`Your commute: ${riskText}, ${alertsText}`}
+      icon={<img src={routeIcon} alt="commute" />}
+      actionText="Plan Route"
+      actionLink={planRouteLink(commute)}
+      links={[
+        { text: riskText, className: level ? LEVEL_CLASS[level] : "info" },
+        { text: alertsText, className: onRoute ? "orange" : "success" },
+      ]}
+    />
+  );
+}
@@ -0,0 +1,109 @@
+// src/components/DeparturePlanner.tsx
+// 「什麼時候出發？」：選定路線未來 12 小時每個出發時段的風險長條圖，標出最安全的時段
+import { useEffect, useMemo, useState } from "react";
+import "./DeparturePlanner.css";
+
+import type { AlertLite } from "../lib/alerts";
+import { planDepartures, safestWindow, type DepartureSlot } from "../lib/departures";
+import { fetchHourlyForecast, type ForecastHour } from "../lib/forecast";
+import type { RiskLabel } from "../lib/risk";
+import type { RouteCandidate } from "../lib/routes";
+import { formatSpeed } from "../lib/settings";
+
+type Props = {
+  route: Pick<RouteCandidate, "id" | "path" | "durationS">;
+  alerts: AlertLite[];
+};
+
+const HOURS = 12;
+const LABEL_CLASS: Record<RiskLabel, string> = { LOW: "low", MEDIUM: "medium", HIGH: "high" };
+
+const clock = (t: number) => new Date(t).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+const riskText = (label: RiskLabel, score: number) => `${label[0]}${label.slice(1).toLowerCase()} risk (${score})`;
+
+function slotTitle(s: DepartureSlot) {
+  const w = s.weather;
+  const parts = [
+    `Leave ${clock(s.at)}: ${riskText(s.label, s.score)}`,
+    `${s.alertCount} alert${s.alertCount === 1 ? "" : "s"} on route`,
+    w?.precipitation != null ? `rain ${w.precipitation.toFixed(1)} mm/h` : "",
+    w?.windSpeed != null ? `wind ${formatSpeed(w.windSpeed)}` : "",
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+export default function DeparturePlanner({ route, alerts }: Props) {
+  const [forecast, setForecast] = useState<ForecastHour[]>([]);
+  const [status, setStatus] = useState<"loading" | "done" | "error">("loading");
+
+  // 預報：取路線中段的點查一次
+  const mid = route.path[Math.floor(route.path.length / 2)];
+  const midLat = mid?.lat;
+  const midLon = mid?.lon;
+  useEffect(() => {
+    if (midLat == null || midLon == null) return;
+    const ac = new AbortController();
+    setStatus("loading");
+    fetchHourlyForecast({ lat: midLat, lon: midLon }, HOURS + 2, ac.signal)
+      .then((list) => {
+        setForecast(list);
+        setStatus("done");
+      })
+      .catch((e: Error) => {
+        if (e.name === "AbortError") return;
+        setForecast([]);
+        setStatus("error");
+      });
+    return () => ac.abort();
+  }, [midLat, midLon]);
+
+  const slots = useMemo(
+    () => (status === "loading" ? [] : planDepartures(route, alerts, forecast, HOURS)),
+    [route, alerts, forecast, status]
+  );
+  const best = safestWindow(slots);
+  const now = slots[0];
+
+  return (
+    <div className="depart-planner">
+      <strong className="depart-title">When should I leave?</strong>
+
+      {status === "loading" && <p className="depart-note">Checking the forecast…</p>}
+      {status === "error" && (
+        <p className="depart-note">Forecast unavailable: using current alerts and time of day only.</p>
+      )}
+
+      {best && now && (
+        <>
+          <p className="depart-summary">
+            Safest: <strong>{best.from === best.to ? clock(best.from) : `${clock(best.from)} – ${clock(best.to)}`}</strong>{" "}
+            <span className={`depart-pill ${LABEL_CLASS[best.label]}`}>{riskText(best.label, best.score)}</span>
+            {best.from !== now.at && (
+              <span className="depart-note"> · leaving now: {riskText(now.label, now.score)}</span>
+            )}
+          </p>
+
+          <div className="depart-chart" role="list" aria-label="Risk by departure time">
+            {slots.map((s, i) => {
+              const inWindow = s.at >= best.from && s.at <= best.to;
+              const d = new Date(s.at);
+              const showLabel = i === 0 || (d.getMinutes() === 0 && d.getHours() % 3 === 0);
+              return (
+                <div
+                  key={s.at}
+                  role="listitem"
+                  className={`depart-slot ${inWindow ? "best" : ""}`}
+                  title={slotTitle(s)}
+                  aria-label={slotTitle(s)}
+                >
+                  <span className={`depart-bar ${LABEL_CLASS[s.label]}`} style={{ height: `${Math.max(4, s.score)}%` }} />
+                  <span className="depart-time">{showLabel ? (i === 0 ? "Now" : clock(s.at)) : ""}</span>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
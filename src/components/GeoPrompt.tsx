@@ -2,12 +2,19 @@ import { useState } from "react";
 import { Dialog, DialogContent } from "@mui/material";
 import MyLocationIcon from "@mui/icons-material/MyLocation";
 import "./GeoPrompt.css";
+import PlacePicker from "./PlacePicker";
+import { load } from "../lib/bus";
+import { enablePush, pushSupported } from "../lib/push";
+import { getSettings } from "../lib/settings";
 
 export type Coords = { lat: number; lon: number };
 
+/** gps = 裝置定位；manual = 搜尋 / 點地圖 / 常用地點 */
+export type CoordsSource = "gps" | "manual";
+
 type Props = {
   open: boolean;
-  onGotCoords: (c: Coords) => void;
+  onGotCoords: (c: Coords, source: CoordsSource) => void;
   onClose: () => void;
 };
 
@@ -50,8 +57,19 @@ export default function GeoPrompt({ open, onGotCoords, onClose }: Props) {
   const [accuracy, setAccuracy] = useState<Accuracy>("precise");
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // 手動選位置（拒絕定位時自動展開）
+  const [manual, setManual] = useState(false);
+
+  // 順便詢問是否開啟背景推播（只在尚未決定過時顯示）
+  const canAskPush = pushSupported() && Notification.permission === "default";
+  const [wantPush, setWantPush] = useState(false);
 
   const doLocate = (once: boolean) => {
+    // 必須在點擊當下要求權限（瀏覽器要求 user gesture）
+    if (canAskPush && wantPush) {
+      enablePush().catch((e) => console.warn("enable push failed", e));
+    }
+
     if (!("geolocation" in navigator)) {
       setError("Your browser does not support geolocation.");
       return;
@@ -62,12 +80,13 @@ export default function GeoPrompt({ open, onGotCoords, onClose }: Props) {
     navigator.geolocation.getCurrentPosition(
       (pos) => {
         const { latitude, longitude } = pos.coords;
-        onGotCoords({ lat: latitude, lon: longitude });
+        onGotCoords({ lat: latitude, lon: longitude }, "gps");
         setBusy(false);
       },
       (err) => {
         if (err.code === err.PERMISSION_DENIED) {
-          setError("Permission denied. You can enable location in your browser settings.");
+          setError("Permission denied. You can enable location in your browser settings, or choose a place below.");
+          setManual(true);
         } else if (err.code === err.POSITION_UNAVAILABLE) {
           setError("Location unavailable. Please try again later.");
         } else if (err.code === err.TIMEOUT) {
@@ -136,6 +155,13 @@ export default function GeoPrompt({ open, onGotCoords, onClose }: Props) {
           </button>
         </div>
 
+        {canAskPush && (
+          <label className="geo-push">
+            <input type="checkbox" checked={wantPush} onChange={(e) => setWantPush(e.target.checked)} />
+            Also notify me about hazards nearby, even when the app is closed
+          </label>
+        )}
+
         {error && <div className="geo-error">{error}</div>}
 
         <div className="geo-cta">
@@ -150,6 +176,20 @@ export default function GeoPrompt({ open, onGotCoords, onClose }: Props) {
             Don’t allow
           </button>
         </div>
+
+        {/* 不想 / 不能定位：搜尋地址、點地圖或選常用地點 */}
+        <div className="geo-manual">
+          {manual ? (
+            <PlacePicker
+              center={load("coords") ?? getSettings().fallbackLocation}
+              onPick={(p) => onGotCoords({ lat: p.lat, lon: p.lon }, "manual")}
+            />
+          ) : (
+            <button className="geo-btn ghost" onClick={() => setManual(true)}>
+              Choose a location instead
+            </button>
+          )}
+        </div>
       </DialogContent>
     </Dialog>
   );
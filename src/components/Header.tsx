@@ -7,6 +7,9 @@ import arrowLeft from "../assets/arrow-left.svg";
 import { useNavigate, useLocation } from "react-router-dom";
 import { useEffect, useState } from "react";
 import AlertTray from "./AlertTray";
+import { isRelevant, type AlertLite } from "../lib/alerts";
+import { emit, load, on } from "../lib/bus";
+import { useOnline } from "../lib/offline";
 
 export default function Header() {
   const navigate = useNavigate();
@@ -17,85 +20,34 @@ export default function Header() {
   const [alertCount, setAlertCount] = useState(0); // 由 alertsService 寫入/廣播
   const [bellCount, setBellCount] = useState(0);   // 由 notify.ts 本地提升
   const [openTray, setOpenTray] = useState(false);
-  const [alerts, setAlerts] = useState<any[]>([]);
+  const [alerts, setAlerts] = useState<AlertLite[]>([]);
   const [updatedLabel, setUpdatedLabel] = useState("Updated just now");
+  const online = useOnline();
 
   useEffect(() => {
-    // 地址初始化
-    try {
-      const cached = localStorage.getItem("cs.address");
-      if (cached) setAddress(cached);
-    } catch {}
-
-    // 地址更新事件
-    const onAddr = (e: Event) => {
-      const detail = (e as CustomEvent<string>).detail;
-      if (typeof detail === "string") setAddress(detail);
-    };
-    window.addEventListener("cs:address", onAddr);
-
-    // alerts 初始化（數量 + 清單）
-    try {
-      const n = parseInt(localStorage.getItem("cs.alerts.total") || "0", 10);
-      setAlertCount(Number.isFinite(n) ? n : 0);
-      const json = JSON.parse(localStorage.getItem("cs.alerts.list") || "[]");
-      setAlerts(Array.isArray(json) ? json : []);
-    } catch {}
-
-    // bell 初始化
-    try {
-      const bc = parseInt(localStorage.getItem("cs.bellCount") || "0", 10);
-      if (Number.isFinite(bc)) setBellCount(bc);
-    } catch {}
-
-    // 監聽 alerts 數量/清單
-    const onAlerts = (e: Event) => {
-      const total = Number((e as CustomEvent<{ total?: number }>).detail?.total ?? 0);
-      setAlertCount(Number.isFinite(total) ? total : 0);
-      bumpUpdatedLabel();
-    };
-    const onList = (e: Event) => {
-      const list = (e as CustomEvent<{ list?: any[] }>).detail?.list ?? [];
-      if (Array.isArray(list)) setAlerts(list);
-    };
-    window.addEventListener("cs:alerts", onAlerts);
-    window.addEventListener("cs:alerts:list", onList);
-
-    // 監聽本地 bell 提醒
-    const onBell = (e: Event) => {
-      const cnt = Number((e as CustomEvent<{ count?: number }>).detail?.count ?? 0);
-      if (Number.isFinite(cnt)) setBellCount(cnt);
-    };
-    window.addEventListener("cs:bell", onBell);
-
-    // 跨分頁同步
-    const onStorage = (e: StorageEvent) => {
-      if (e.key === "cs.address" && e.newValue) setAddress(e.newValue);
-      if (e.key === "cs.alerts.list" && e.newValue) {
-        try { setAlerts(JSON.parse(e.newValue) || []); } catch {}
-      }
-      if (e.key === "cs.alerts.total" && e.newValue) {
-        const n = parseInt(e.newValue, 10);
-        if (Number.isFinite(n)) setAlertCount(n);
-      }
-      if (e.key === "cs.bellCount" && e.newValue) {
-        const n = parseInt(e.newValue, 10);
-        if (Number.isFinite(n)) setBellCount(n);
-      }
-      if (e.key === "cs.alerts.updatedAt") bumpUpdatedLabel();
-    };
-    window.addEventListener("storage", onStorage);
+    // 初始化（地址 / alerts 數量 + 清單 / bell）
+    setAddress(load("address", ""));
+    setAlertCount(load("alerts.total", 0));
+    setAlerts(load("alerts.list", []));
+    setBellCount(load("bellCount", 0));
 
     // 初始 updated 標籤 + 每 30s 滾動更新
     bumpUpdatedLabel();
     const tick = window.setInterval(bumpUpdatedLabel, 30_000);
 
+    // 事件（其他分頁的變更也會經由 bus 同步過來）
+    const unsubs = [
+      on("address", setAddress),
+      on("alerts:total", ({ total }) => {
+        setAlertCount(total);
+        bumpUpdatedLabel();
+      }),
+      on("alerts:list", ({ list }) => setAlerts(list)),
+      on("bell", ({ count }) => setBellCount(count)), // 本地 bell 提醒
+    ];
+
     return () => {
-      window.removeEventListener("cs:address", onAddr);
-      window.removeEventListener("cs:alerts", onAlerts);
-      window.removeEventListener("cs:alerts:list", onList);
-      window.removeEventListener("cs:bell", onBell);
-      window.removeEventListener("storage", onStorage);
+      unsubs.forEach((off) => off());
       window.clearInterval(tick);
     };
   }, []);
@@ -105,11 +57,11 @@ export default function Header() {
 
   const onBellClick = () => {
     setOpenTray(v => !v);
-    window.dispatchEvent(new CustomEvent("cs:alerts:maybeChanged"));
+    emit("alerts:maybeChanged");
   };
 
   function bumpUpdatedLabel() {
-    const t = Number(localStorage.getItem("cs.alerts.updatedAt") || 0);
+    const t = load("alerts.updatedAt", 0);
     if (!t) return setUpdatedLabel("Updated just now");
     const diffSec = Math.floor((Date.now() - t) / 1000);
     if (diffSec < 60) return setUpdatedLabel("Updated just now");
@@ -119,7 +71,7 @@ export default function Header() {
 
   // Header 的「Change」→ 丟事件給 Home.tsx 打開 GeoPrompt
   const onChangeLocation = () => {
-    window.dispatchEvent(new CustomEvent("cs:prompt-geo"));
+    emit("prompt-geo");
   };
 
   // 徽章數：取 alerts 總數與 bell 計數的最大值
@@ -153,7 +105,7 @@ export default function Header() {
       </div>
 
       <div className="header-right" style={{ position: "relative" }}>
-        <span className="updated">{updatedLabel}</span>
+        <span className="updated">{online ? updatedLabel : `Offline · ${updatedLabel}`}</span>
 
         <button
           type="button"
@@ -166,10 +118,23 @@ export default function Header() {
           {badge > 0 && <span className="badge">{badge}</span>}
         </button>
 
-        <img src={settings} alt="Settings" className="icon" />
+        <button
+          type="button"
+          className="icon-button"
+          aria-label="Settings"
+          onClick={() => navigate("/settings")}
+          title="Settings"
+        >
+          <img src={settings} alt="" className="icon" />
+        </button>
 
         {/* 托盤靠右絕對定位 */}
-        <AlertTray open={openTray} onClose={() => setOpenTray(false)} alerts={alerts} />
+        {/* 托盤只列半徑內的告警，和徽章數一致 */}
+        <AlertTray
+          open={openTray}
+          onClose={() => setOpenTray(false)}
+          alerts={alerts.filter(a => isRelevant(a))}
+        />
       </div>
     </header>
   );
@@ -0,0 +1,32 @@
+// src/components/HotspotLayer.tsx
+// 地圖熱度圖層：每個熱點格子畫成半透明方塊，顏色 / 透明度看加權分數
+import { Rectangle, Tooltip } from "react-leaflet";
+import { heatColor, type Hotspot } from "../lib/hotspots";
+
+interface HotspotLayerProps {
+  spots: Hotspot[];
+}
+
+export default function HotspotLayer({ spots }: HotspotLayerProps) {
+  return (
+    <>
+      {spots.map((s) => (
+        <Rectangle
+          key={s.id}
+          bounds={s.bounds}
+          pathOptions={{
+            stroke: false,
+            fillColor: heatColor(s.intensity),
+            fillOpacity: 0.25 + 0.5 * s.intensity,
+          }}
+        >
+          <Tooltip sticky>
+            {s.lga ? `${s.lga} · ` : ""}
+            {s.count} report{s.count === 1 ? "" : "s"}
+            {s.severe ? ` (${s.severe} severe)` : ""} · mostly {s.topType}
+          </Tooltip>
+        </Rectangle>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,115 @@
+// src/components/InsightCharts.tsx
+// DataInsights 的圖表（純 SVG / CSS，不另外裝圖表套件）：星期 × 小時熱度圖、類型分布、每月趨勢、嚴重度分布
+import "./InsightCharts.css";
+import { SEVERITIES, type IncidentSeverity } from "../lib/incidents";
+import { WEEKDAYS } from "../lib/insights";
+
+const HOUR_TICKS = [0, 6, 12, 18];
+
+const hourLabel = (h: number) => (h === 0 ? "12 AM" : h < 12 ? `${h} AM` : h === 12 ? "12 PM" : `${h - 12} PM`);
+
+/** 星期 × 小時熱度圖（matrix[0] = 週一） */
+export function HourDayHeatmap({ matrix }: { matrix: number[][] }) {
+  const max = Math.max(1, ...matrix.flat());
+  return (
+    <div className="chart-heatmap" role="table" aria-label="Incidents by weekday and hour">
+      {matrix.map((row, d) => (
+        <div key={d} className="heat-row" role="row">
+          <span className="heat-day" role="rowheader">{WEEKDAYS[d]}</span>
+          {row.map((n, h) => (
+            <span
+              key={h}
+              role="cell"
+              className="heat-cell"
+              style={{ background: n ? `rgba(220, 38, 38, ${0.12 + (n / max) * 0.88})` : undefined }}
+              title={`${WEEKDAYS[d]} ${hourLabel(h)}: ${n} incident${n === 1 ? "" : "s"}`}
+            />
+          ))}
+        </div>
+      ))}
+      <div className="heat-row heat-axis" aria-hidden="true">
+        <span className="heat-day" />
+        {Array.from({ length: 24 }, (_, h) => (
+          <span key={h} className="heat-tick">{HOUR_TICKS.includes(h) ? hourLabel(h) : ""}</span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** 類型分布（橫條，顏色沿用 INCIDENT_TYPES） */
+export function TypeBreakdown({ items }: { items: { code: string; label: string; color: string; count: number }[] }) {
+  const total = items.reduce((s, t) => s + t.count, 0) || 1;
+  const max = Math.max(1, ...items.map((t) => t.count));
+  return (
+    <ul className="chart-bars">
+      {items.map((t) => (
+        <li key={t.code}>
+          <span className="bar-label">{t.label}</span>
+          <span className="bar-track">
+            <span className="bar-fill" style={{ width: `${(t.count / max) * 100}%`, background: t.color }} />
+          </span>
+          <span className="bar-value">{t.count} · {Math.round((t.count / total) * 100)}%</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** 每月趨勢折線 */
+export function MonthlyTrend({ points }: { points: { month: string; label: string; count: number }[] }) {
+  const W = 600;
+  const H = 160;
+  const PAD = 24;
+  const max = Math.max(1, ...points.map((p) => p.count));
+  const x = (i: number) => (points.length === 1 ? W / 2 : PAD + (i / (points.length - 1)) * (W - PAD * 2));
+  const y = (n: number) => H - PAD - (n / max) * (H - PAD * 2);
+  const line = points.map((p, i) => `${x(i).toFixed(1)},${y(p.count).toFixed(1)}`).join(" ");
+  const every = Math.ceil(points.length / 8); // 月份太多時隔幾個才標
+
+  return (
+    <svg className="chart-trend" viewBox={`0 0 ${W} ${H}`} role="img" aria-label="Incidents per month">
+      <line x1={PAD} y1={H - PAD} x2={W - PAD} y2={H - PAD} className="trend-axis" />
+      <polyline points={line} className="trend-line" />
+      {points.map((p, i) => (
+        <g key={p.month}>
+          <circle cx={x(i)} cy={y(p.count)} r={4} className="trend-dot">
+            <title>{`${p.label}: ${p.count}`}</title>
+          </circle>
+          <text x={x(i)} y={y(p.count) - 8} className="trend-value">{p.count}</text>
+          {i % every === 0 && <text x={x(i)} y={H - 6} className="trend-label">{p.label}</text>}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+const SEVERITY_LABELS: Record<IncidentSeverity, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  critical: "Critical",
+};
+
+/** 嚴重度分布（單條堆疊 + 圖例） */
+export function SeverityDistribution({ counts }: { counts: Record<IncidentSeverity, number> }) {
+  const total = SEVERITIES.reduce((s, k) => s + counts[k], 0);
+  if (!total) return <p className="chart-empty">No reports in this period.</p>;
+  return (
+    <div className="chart-severity">
+      <div className="sev-stack" role="img" aria-label="Severity distribution">
+        {SEVERITIES.filter((k) => counts[k] > 0).map((k) => (
+          <span key={k} className={`sev-part ${k}`} style={{ flexGrow: counts[k] }} title={`${SEVERITY_LABELS[k]}: ${counts[k]}`} />
+        ))}
+      </div>
+      <ul className="sev-legend">
+        {SEVERITIES.map((k) => (
+          <li key={k}>
+            <span className={`sev-swatch ${k}`} />
+            {SEVERITY_LABELS[k]} <strong>{counts[k]}</strong> ({Math.round((counts[k] / total) * 100)}%)
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+// src/components/LocationPickerDialog.tsx
+// 回報用的地圖選點：點地圖或拖曳圖釘，反向地理編碼填入「路名, 區」；ReportIncident 使用
+import { useEffect, useMemo, useState } from "react";
+import L from "leaflet";
+import { Marker, useMapEvents } from "react-leaflet";
+import { Button, Dialog, DialogActions, DialogContent, DialogTitle } from "@mui/material";
+import MapView from "./MapView";
+import "./LocationPickerDialog.css";
+
+import { reverseGeocode, type ReverseResult } from "../lib/geocode";
+import type { LatLon } from "../lib/geo";
+
+interface LocationPickerDialogProps {
+  open: boolean;
+  center: LatLon;                   // 沒有已選的點時，地圖從這裡開始
+  initial?: LatLon | null;          // 已選的點（再次開啟時沿用）
+  onClose: () => void;
+  onPick: (p: ReverseResult) => void;
+}
+
+const DEBOUNCE_MS = 400;
+
+const coordLabel = (c: LatLon) => `${c.lat.toFixed(6)}, ${c.lon.toFixed(6)}`;
+
+const PIN_ICON = L.divIcon({
+  className: "lp-pin",
+  html: `<span class="lp-pin-head"></span>`,
+  iconSize: [28, 30],
+  iconAnchor: [14, 29],             // 旋轉後的尖端
+});
+
+/** 點地圖移動圖釘 */
+function ClickToMove({ onMove }: { onMove: (c: LatLon) => void }) {
+  useMapEvents({
+    click: (e) => onMove({ lat: e.latlng.lat, lon: e.latlng.lng }),
+  });
+  return null;
+}
+
+export default function LocationPickerDialog({ open, center, initial, onClose, onPick }: LocationPickerDialogProps) {
+  const [pin, setPin] = useState<LatLon | null>(null);
+  const [place, setPlace] = useState<ReverseResult | null>(null);
+  const [looking, setLooking] = useState(false);
+
+  // 每次開啟都從已選的點（或地圖中心）開始
+  useEffect(() => {
+    if (open) setPin(initial ?? center);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  // 圖釘停下來才反查地址；新的查詢會取消舊的
+  useEffect(() => {
+    if (!pin || !open) return;
+    const ac = new AbortController();
+    setPlace(null);
+    setLooking(true);
+    const t = window.setTimeout(() => {
+      reverseGeocode(pin, ac.signal)
+        .then(setPlace)
+        .catch((e: Error) => {
+          if (e.name !== "AbortError") console.warn("reverse geocode failed", e);
+        })
+        .finally(() => {
+          if (!ac.signal.aborted) setLooking(false);
+        });
+    }, DEBOUNCE_MS);
+    return () => {
+      window.clearTimeout(t);
+      ac.abort();
+    };
+  }, [pin, open]);
+
+  const dragHandlers = useMemo(
+    () => ({
+      dragend: (e: L.LeafletEvent) => {
+        const ll = (e.target as L.Marker).getLatLng();
+        setPin({ lat: ll.lat, lon: ll.lng });
+      },
+    }),
+    []
+  );
+
+  const label = place?.short ?? place?.label ?? (pin ? coordLabel(pin) : "");
+
+  const confirm = () => {
+    if (!pin) return;
+    // 查不到地址也可以用，欄位就填座標
+    onPick(place ? { ...place, ...pin } : { ...pin, label: coordLabel(pin) });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Pick the incident location</DialogTitle>
+      <DialogContent dividers>
+        <div className="lp-map">
+          {open && (
+            <MapView center={initial ?? center} zoom={16} follow={false}>
+              <ClickToMove onMove={setPin} />
+              {pin && <Marker position={[pin.lat, pin.lon]} icon={PIN_ICON} draggable eventHandlers={dragHandlers} />}
+            </MapView>
+          )}
+        </div>
+        <p className="lp-hint">Tap the map or drag the pin to where it happened.</p>
+        {pin && (
+          <p className="lp-place">
+            <strong>{looking ? "Finding address…" : label}</strong>
+            {!looking && place?.lga && <span> · {place.lga}</span>}
+          </p>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={confirm} disabled={!pin || looking}>
+          Use this location
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+// src/components/MapView.tsx
+// 共用底圖：可設定的圖磚來源 + 離線格線備援 + 騎士位置
+import { useEffect } from "react";
+import L from "leaflet";
+import { MapContainer, CircleMarker, Tooltip, useMap } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import "./MapView.css";
+
+import type { LatLon } from "../lib/geo";
+
+interface MapViewProps {
+  center: LatLon;
+  zoom?: number;
+  rider?: LatLon | null;           // 騎士目前位置（藍點）
+  follow?: boolean;                // center 變動時是否跟著平移
+  fit?: LatLon[];                  // 縮放到包住這些點（路線 / 軌跡）；陣列換了才重新縮放
+  className?: string;
+  children?: React.ReactNode;      // 其它圖層（告警、路線…）
+}
+
+// 從 .env 讀取；設成 "offline" 就只用本地格線
+const TILES_URL =
+  (import.meta.env.VITE_MAP_TILES_URL as string | undefined) ||
+  "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILES_ATTRIBUTION =
+  (import.meta.env.VITE_MAP_TILES_ATTRIBUTION as string | undefined) ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// 連續失敗幾張圖磚（且一張都沒成功）就改用離線格線
+const MAX_TILE_ERRORS = 4;
+
+/** 本地畫的淺色格線圖磚（不需網路） */
+class OfflineGridLayer extends L.GridLayer {
+  protected createTile(): HTMLElement {
+    const size = 256;
+    const canvas = document.createElement("canvas");
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext("2d");
+    if (ctx) {
+      ctx.fillStyle = "#eef2f7";
+      ctx.fillRect(0, 0, size, size);
+      ctx.strokeStyle = "#d5dce6";
+      ctx.lineWidth = 1;
+      for (let i = 0; i <= size; i += 64) {
+        ctx.beginPath(); ctx.moveTo(i + 0.5, 0); ctx.lineTo(i + 0.5, size); ctx.stroke();
+        ctx.beginPath(); ctx.moveTo(0, i + 0.5); ctx.lineTo(size, i + 0.5); ctx.stroke();
+      }
+    }
+    return canvas;
+  }
+}
+
+const createOfflineGrid = () => new OfflineGridLayer({ attribution: "Offline map" });
+
+/** 圖磚圖層：線上圖磚載不到就自動退回離線格線 */
+function TilesWithFallback() {
+  const map = useMap();
+
+  useEffect(() => {
+    if (TILES_URL === "offline") {
+      const grid = createOfflineGrid().addTo(map);
+      return () => { grid.remove(); };
+    }
+
+    let loaded = 0;
+    let errors = 0;
+    let grid: L.GridLayer | null = null;
+    const tiles = L.tileLayer(TILES_URL, { attribution: TILES_ATTRIBUTION, maxZoom: 19 });
+
+    tiles.on("tileload", () => { loaded++; });
+    tiles.on("tileerror", () => {
+      errors++;
+      if (!grid && loaded === 0 && errors >= MAX_TILE_ERRORS) {
+        console.warn("map tiles unavailable, using offline grid");
+        tiles.remove();
+        grid = createOfflineGrid().addTo(map);
+      }
+    });
+    tiles.addTo(map);
+
+    return () => {
+      tiles.remove();
+      grid?.remove();
+    };
+  }, [map]);
+
+  return null;
+}
+
+/** center 變動時平移（MapContainer 的 center 只在初始化生效） */
+function FollowCenter({ center }: { center: LatLon }) {
+  const map = useMap();
+  useEffect(() => {
+    map.panTo([center.lat, center.lon]);
+  }, [map, center.lat, center.lon]);
+  return null;
+}
+
+/** 縮放到包住整條路線 */
+function FitBounds({ points }: { points: LatLon[] }) {
+  const map = useMap();
+  useEffect(() => {
+    if (points.length === 0) return;
+    map.fitBounds(points.map((p) => [p.lat, p.lon] as [number, number]), { padding: [24, 24] });
+  }, [map, points]);
+  return null;
+}
+
+export default function MapView({
+  center,
+  zoom = 14,
+  rider,
+  follow = true,
+  fit,
+  className,
+  children,
+}: MapViewProps) {
+  return (
+    <MapContainer
+      center={[center.lat, center.lon]}
+      zoom={zoom}
+      className={`map-view ${className || ""}`}
+      scrollWheelZoom
+    >
+      <TilesWithFallback />
+      {follow && <FollowCenter center={center} />}
+      {fit && <FitBounds points={fit} />}
+
+      {rider && (
+        <CircleMarker
+          center={[rider.lat, rider.lon]}
+          radius={8}
+          pathOptions={{ color: "#fff", weight: 3, fillColor: "#2563eb", fillOpacity: 1 }}
+        >
+          <Tooltip direction="top" offset={[0, -8]}>You are here</Tooltip>
+        </CircleMarker>
+      )}
+
+      {children}
+    </MapContainer>
+  );
+}
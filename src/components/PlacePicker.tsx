@@ -0,0 +1,202 @@
+// src/components/PlacePicker.tsx
+// 手動選位置：地址搜尋（自動完成）/ 地圖點選 / 常用地點；GeoPrompt 在不想或不能定位時使用
+import { useEffect, useState } from "react";
+import { CircleMarker, useMapEvents } from "react-leaflet";
+import SearchIcon from "@mui/icons-material/Search";
+import PlaceIcon from "@mui/icons-material/Place";
+import CloseIcon from "@mui/icons-material/Close";
+import MapView from "./MapView";
+import "./PlacePicker.css";
+
+import { parseLatLng, searchPlaces, type GeocodeResult } from "../lib/geocode";
+import type { LatLon } from "../lib/geo";
+import { PLACE_PRESETS, removePlace, savePlace, usePlaces } from "../lib/places";
+
+type Props = {
+  center: LatLon;                   // 地圖初始中心（目前位置或預設位置）
+  onPick: (p: GeocodeResult) => void;
+};
+
+type Mode = "search" | "pin";
+
+const MODE_LABELS: Record<Mode, string> = {
+  search: "Search address",
+  pin: "Drop a pin",
+};
+
+const MIN_QUERY = 3;
+const DEBOUNCE_MS = 350;
+
+const coordLabel = (c: LatLon) => `${c.lat.toFixed(5)}, ${c.lon.toFixed(5)}`;
+
+/** 點地圖放圖釘 */
+function PinDrop({ onDrop }: { onDrop: (c: LatLon) => void }) {
+  useMapEvents({
+    click: (e) => onDrop({ lat: e.latlng.lat, lon: e.latlng.lng }),
+  });
+  return null;
+}
+
+export default function PlacePicker({ center, onPick }: Props) {
+  const places = usePlaces();
+  const [mode, setMode] = useState<Mode>("search");
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<GeocodeResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState("");
+  const [picked, setPicked] = useState<GeocodeResult | null>(null);
+
+  // 自動完成：停止輸入一下才查，新的查詢會取消舊的
+  useEffect(() => {
+    const q = query.trim();
+    const direct = parseLatLng(q);
+    if (direct) {
+      setResults([{ ...direct, label: coordLabel(direct) }]);
+      return;
+    }
+    if (q.length < MIN_QUERY) {
+      setResults([]);
+      return;
+    }
+
+    const ac = new AbortController();
+    const t = window.setTimeout(() => {
+      setSearching(true);
+      setError("");
+      searchPlaces(q, { limit: 5, signal: ac.signal })
+        .then((list) => {
+          setResults(list);
+          if (list.length === 0) setError(`No places found for "${q}".`);
+        })
+        .catch((e) => {
+          if ((e as Error)?.name === "AbortError") return;
+          setResults([]);
+          setError((e as Error)?.message || "Search failed");
+        })
+        .finally(() => {
+          if (!ac.signal.aborted) setSearching(false);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(t);
+      ac.abort();
+    };
+  }, [query]);
+
+  const choose = (p: GeocodeResult) => {
+    setPicked(p);
+    setResults([]);
+    setError("");
+  };
+
+  const isSavedAs = (name: string) =>
+    !!picked && places.some((p) => p.name === name && p.lat === picked.lat && p.lon === picked.lon);
+
+  return (
+    <div className="place-picker">
+      {/* 常用地點 */}
+      {places.length > 0 && (
+        <div className="place-saved">
+          {places.map((p) => (
+            <span key={p.name} className="place-chip">
+              <button type="button" onClick={() => onPick(p)} title={p.label}>
+                <PlaceIcon fontSize="inherit" />
+                {p.name}
+              </button>
+              <button
+                type="button"
+                className="place-chip-remove"
+                aria-label={`Remove ${p.name}`}
+                onClick={() => removePlace(p.name)}
+              >
+                <CloseIcon fontSize="inherit" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="place-tabs" role="tablist">
+        {(Object.keys(MODE_LABELS) as Mode[]).map((m) => (
+          <button
+            key={m}
+            type="button"
+            role="tab"
+            aria-selected={mode === m}
+            className={mode === m ? "active" : ""}
+            onClick={() => setMode(m)}
+          >
+            {MODE_LABELS[m]}
+          </button>
+        ))}
+      </div>
+
+      {mode === "search" ? (
+        <div className="place-search">
+          <label className="place-input">
+            <SearchIcon fontSize="small" />
+            <input
+              type="search"
+              placeholder="Street, suburb or lat, lon"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              aria-label="Search address"
+            />
+          </label>
+          {searching && <div className="place-hint">Searching…</div>}
+          {error && !searching && <div className="place-hint error">{error}</div>}
+          {results.length > 0 && (
+            <ul className="place-results">
+              {results.map((r) => (
+                <li key={`${r.lat},${r.lon}`}>
+                  <button type="button" onClick={() => choose(r)}>{r.label}</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <div className="place-map">
+          <MapView center={picked ?? center} zoom={14} follow={false}>
+            <PinDrop onDrop={(c) => choose({ ...c, label: coordLabel(c) })} />
+            {picked && (
+              <CircleMarker
+                center={[picked.lat, picked.lon]}
+                radius={9}
+                pathOptions={{ color: "#fff", weight: 3, fillColor: "#ef4444", fillOpacity: 1 }}
+              />
+            )}
+          </MapView>
+          {!picked && <div className="place-hint">Tap the map to drop a pin.</div>}
+        </div>
+      )}
+
+      {/* 已選的點：確認 / 存成常用地點 */}
+      {picked && (
+        <div className="place-picked">
+          <div className="place-picked-label">
+            <PlaceIcon fontSize="small" />
+            <span>{picked.label}</span>
+          </div>
+          <div className="place-picked-actions">
+            {PLACE_PRESETS.map((name) => (
+              <button
+                key={name}
+                type="button"
+                className="place-save"
+                disabled={isSavedAs(name)}
+                onClick={() => savePlace({ ...picked, name })}
+              >
+                {isSavedAs(name) ? `Saved as ${name}` : `Save as ${name}`}
+              </button>
+            ))}
+            <button type="button" className="place-use" onClick={() => onPick(picked)}>
+              Use this location
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+// src/components/ReportQueueList.tsx
+// 待送出 / 已送出的事故回報清單（離線佇列）
+import { useEffect, useState } from "react";
+import { Chip, Button } from "@mui/material";
+import {
+  listQueuedReports,
+  retryReport,
+  removeReport,
+  type QueuedReport,
+} from "../services/reportQueue";
+import { on } from "../lib/bus";
+import { getIncidentTypeLabel } from "../lib/incidentTypes";
+import { timeFromNow } from "../lib/time";
+import "./ReportQueueList.css";
+
+function statusLabel(r: QueuedReport) {
+  switch (r.status) {
+    case "queued":
+      return navigator.onLine ? "Queued" : "Queued • waiting for connection";
+    case "uploading":
+      return "Uploading…";
+    case "sent":
+      return `Sent as INCIDENT_NO ${r.incidentNo ?? "—"}`;
+    case "failed":
+      return "Failed";
+  }
+}
+
+const statusColor = {
+  queued: "warning",
+  uploading: "info",
+  sent: "success",
+  failed: "error",
+} as const;
+
+export default function ReportQueueList() {
+  const [items, setItems] = useState<QueuedReport[]>([]);
+
+  useEffect(() => {
+    let alive = true;
+    const load = () => {
+      listQueuedReports().then((list) => { if (alive) setItems(list); });
+    };
+    load();
+    const off = on("reports:queue", load);
+    window.addEventListener("online", load);
+    window.addEventListener("offline", load);
+    return () => {
+      alive = false;
+      off();
+      window.removeEventListener("online", load);
+      window.removeEventListener("offline", load);
+    };
+  }, []);
+
+  if (items.length === 0) return null;
+
+  return (
+    <section className="report-queue">
+      <h3>Your Reports</h3>
+      <ul>
+        {items.map((r) => (
+          <li key={r.id} className={`rq-item ${r.status}`}>
+            <div className="rq-main">
+              <strong>{r.payload.Incident_type_desc || getIncidentTypeLabel(r.payload.Incident_type)}</strong>
+              <small>
+                {timeFromNow(r.createdAt)}
+                {r.photos.length > 0 ? ` • ${r.photos.length} photo${r.photos.length > 1 ? "s" : ""}` : ""}
+              </small>
+              {r.lastError && r.status !== "sent" && <small className="rq-error">{r.lastError}</small>}
+            </div>
+            <div className="rq-side">
+              <Chip size="small" label={statusLabel(r)} color={statusColor[r.status]} variant="outlined" />
+              {(r.status === "queued" || r.status === "failed") && (
+                <div className="rq-actions">
+                  <Button size="small" onClick={() => void retryReport(r.id)} disabled={!navigator.onLine}>
+                    Retry
+                  </Button>
+                  <Button size="small" color="error" onClick={() => void removeReport(r.id)}>
+                    Discard
+                  </Button>
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -1,6 +1,7 @@
 // src/components/RiskBodyCard.tsx
 import { Link } from "react-router-dom";
 import { useEffect, useState } from "react";
+import { load, on } from "../lib/bus";
 import "./RiskBodyCard.css";
 
 interface RiskBodyCardProps {
@@ -18,10 +19,9 @@ export default function RiskBodyCard({
   actionLink,
   children,
 }: RiskBodyCardProps) {
-  // 初始值
-  const initial = Number(localStorage.getItem("cs.alertCount") || "0") || 0;
+  // 初始值（alertsService 存的半徑內告警數）
   const [alertCount, setAlertCount] = useState<number>(
-    typeof countOverride === "number" ? countOverride : initial
+    typeof countOverride === "number" ? countOverride : () => load("alerts.total", 0)
   );
 
   useEffect(() => {
@@ -31,28 +31,9 @@ export default function RiskBodyCard({
       return;
     }
 
-    // 沒有 countOverride → 用事件/localStorage 更新
-    const onUpdate = (e: Event) => {
-      const n =
-        (e as CustomEvent<number>).detail ??
-        Number(localStorage.getItem("cs.alertCount") || "0");
-      setAlertCount(Number.isFinite(n) ? n : 0);
-    };
-
-    window.addEventListener("cs:alertsUpdate", onUpdate as EventListener);
-
-    const onStorage = (e: StorageEvent) => {
-      if (e.key === "cs.alertCount") {
-        const n = Number(e.newValue || "0");
-        setAlertCount(Number.isFinite(n) ? n : 0);
-      }
-    };
-    window.addEventListener("storage", onStorage);
-
-    return () => {
-      window.removeEventListener("cs:alertsUpdate", onUpdate as EventListener);
-      window.removeEventListener("storage", onStorage);
-    };
+    // 沒有 countOverride → 跟著 alertsService 的 alerts:total 更新
+    setAlertCount(load("alerts.total", 0));
+    return on("alerts:total", ({ total }) => setAlertCount(total));
   }, [countOverride]);
 
   // 顯示的字串
@@ -0,0 +1,21 @@
+// src/components/StaleBanner.tsx
+// 離線時的提示條：說明目前畫面是「上次的資料」以及多久以前
+import "./StaleBanner.css";
+import { timeFromNow } from "../lib/time";
+
+interface StaleBannerProps {
+  what: string;        // 例如 "alerts"、"risk and alerts"
+  updatedAt?: number;  // epoch ms；沒有就不顯示時間
+}
+
+export default function StaleBanner({ what, updatedAt }: StaleBannerProps) {
+  return (
+    <div className="stale-banner" role="status">
+      <strong>Offline</strong>
+      <span>
+        Showing last known {what}
+        {updatedAt ? ` from ${timeFromNow(updatedAt)}` : ""}. It may be out of date.
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+// src/components/TrackImportCard.tsx
+// PlanRoutePage 的「匯入軌跡」：讀 GPX / GeoJSON，畫在地圖上並疊上沿線的目前告警與歷史事故
+import { useEffect, useMemo, useRef, useState } from "react";
+import { CircleMarker, Polyline, Tooltip } from "react-leaflet";
+import MapView from "./MapView";
+import AlertMarkers from "./AlertMarkers";
+import "./TrackImportCard.css";
+
+import { alertPosition, isWeather, type AlertLite } from "../lib/alerts";
+import { load, on } from "../lib/bus";
+import { CORRIDOR_M } from "../lib/commutes";
+import { distanceToPathM, formatMeters } from "../lib/geo";
+import { fetchIncidentsInBounds, pathBounds, type HistoricalIncident } from "../lib/incidents";
+import { parseTrackFile, trackLengthM, type Track } from "../lib/tracks";
+
+const WAYPOINT_COLORS: Record<string, string> = { start: "#16a34a", finish: "#111827", hazard: "#f97316" };
+
+export default function TrackImportCard() {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [track, setTrack] = useState<Track | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [alerts, setAlerts] = useState<AlertLite[]>(() => load("alerts.list", []));
+  const [incidents, setIncidents] = useState<HistoricalIncident[]>([]);
+  const [incidentsError, setIncidentsError] = useState<string | null>(null);
+
+  useEffect(() => on("alerts:list", ({ list }) => setAlerts(list)), []);
+
+  // 歷史事故：依軌跡範圍查一次
+  useEffect(() => {
+    setIncidents([]);
+    setIncidentsError(null);
+    if (!track) return;
+    const ac = new AbortController();
+    fetchIncidentsInBounds(pathBounds(track.points, CORRIDOR_M), ac.signal)
+      .then((list) => setIncidents(list.filter((i) => distanceToPathM(i, track.points) <= CORRIDOR_M)))
+      .catch((e: Error) => {
+        if (e.name !== "AbortError") setIncidentsError(e.message || "Failed to load past incidents");
+      });
+    return () => ac.abort();
+  }, [track]);
+
+  const nowS = Math.floor(Date.now() / 1000);
+  const alongTrack = useMemo(() => {
+    if (!track) return [];
+    return alerts.filter((a) => {
+      const p = alertPosition(a);
+      return !isWeather(a) && a.expiresAt > nowS && p != null && distanceToPathM({ lat: p.lat, lon: p.lng }, track.points) <= CORRIDOR_M;
+    });
+  }, [alerts, track, nowS]);
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // 同一個檔案可以再選一次
+    if (!file) return;
+    try {
+      setTrack(parseTrackFile(file.name, await file.text()));
+      setError(null);
+    } catch (err) {
+      setError((err as Error)?.message || "Could not read this file.");
+    }
+  };
+
+  return (
+    <section className="track-import card">
+      <div className="track-head">
+        <div>
+          <h3 className="section-subtitle">Import a Ride</h3>
+          <p className="track-hint">Open a GPX or GeoJSON track to check alerts and past incidents along it.</p>
+        </div>
+        <div className="track-buttons">
+          <button type="button" onClick={() => fileRef.current?.click()}>
+            {track ? "Open another file" : "Open GPX / GeoJSON"}
+          </button>
+          {track && (
+            <button type="button" onClick={() => setTrack(null)}>Clear</button>
+          )}
+        </div>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json"
+          hidden
+          onChange={onFile}
+        />
+      </div>
+
+      {error && <p className="track-error" role="alert">{error}</p>}
+
+      {track && (
+        <>
+          <p className="track-meta">
+            <strong>{track.name}</strong> · {formatMeters(trackLengthM(track.points))} ·{" "}
+            <span className={alongTrack.length ? "orange" : "success"}>
+              {alongTrack.length} active alert{alongTrack.length === 1 ? "" : "s"}
+            </span>{" "}
+            ·{" "}
+            {incidentsError
+              ? <span className="track-muted">past incidents unavailable</span>
+              : `${incidents.length} past incident${incidents.length === 1 ? "" : "s"}`}{" "}
+            within {formatMeters(CORRIDOR_M)}
+          </p>
+
+          <div className="track-map">
+            <MapView center={track.points[0]} follow={false} fit={track.points}>
+              <Polyline
+                positions={track.points.map((p) => [p.lat, p.lon] as [number, number])}
+                pathOptions={{ color: "#2563eb", weight: 4, opacity: 0.8 }}
+              />
+              {incidents.map((i) => (
+                <CircleMarker
+                  key={i.id}
+                  center={[i.lat, i.lon]}
+                  radius={5}
+                  pathOptions={{ color: "#6b7280", weight: 1, fillColor: "#9ca3af", fillOpacity: 0.7 }}
+                >
+                  <Tooltip>
+                    Past incident{i.type ? `: ${i.type}` : ""}
+                    {i.date ? ` · ${new Date(i.date).toLocaleDateString()}` : ""}
+                  </Tooltip>
+                </CircleMarker>
+              ))}
+              {track.waypoints.map((w, idx) => (
+                <CircleMarker
+                  key={`wpt-${idx}`}
+                  center={[w.lat, w.lon]}
+                  radius={6}
+                  pathOptions={{ color: "#fff", weight: 2, fillColor: WAYPOINT_COLORS[w.type ?? ""] ?? "#7c3aed", fillOpacity: 1 }}
+                >
+                  <Tooltip>
+                    {w.name}
+                    {w.t ? ` · ${new Date(w.t).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}` : ""}
+                    {w.desc ? ` · ${w.desc}` : ""}
+                  </Tooltip>
+                </CircleMarker>
+              ))}
+              <AlertMarkers alerts={alongTrack} now={nowS} />
+            </MapView>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
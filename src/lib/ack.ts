@@ -0,0 +1,48 @@
+// src/lib/ack.ts
+// 「我也看到了」確認：本地記錄（store 的 acked）+ 呼叫 ack Lambda
+
+import { useCallback, useState } from "react";
+import { isAckable, type AlertLite } from "./alerts";
+import { emit, load, save } from "./bus";
+
+const ACK_URL = "https://id6qv4dal6t7zyxr6uza7v6uui0ygjcn.lambda-url.ap-southeast-2.on.aws/";
+
+function readAcked(): Record<string, boolean> {
+  return load("acked", {});
+}
+
+/** 托盤與地圖共用：回傳已確認清單與 ack 動作（失敗會回滾） */
+export function useAckedAlerts() {
+  const [acked, setAcked] = useState<Record<string, boolean>>(readAcked);
+
+  const ack = useCallback(async (a: AlertLite) => {
+    if (!isAckable(a)) return;
+    const id = a.clusterId || "";
+    if (readAcked()[id]) return;
+
+    setAcked(prev => {
+      const n = { ...prev, [id]: true };
+      save("acked", n);
+      return n;
+    });
+
+    try {
+      await fetch(ACK_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clusterId: id }),
+      });
+      emit("alerts:maybeChanged");
+    } catch (e) {
+      setAcked(prev => {
+        const n = { ...prev }; delete n[id];
+        save("acked", n);
+        return n;
+      });
+      console.error("ack failed", e);
+      alert("Failed to confirm. Please try again.");
+    }
+  }, []);
+
+  return { acked, ack };
+}
@@ -0,0 +1,110 @@
+// src/lib/activeRoute.ts
+// 目前選定的路線：存在 bus store 的 route.active 欄位；騎乘模式與告警相關性（沿線告警）都會參考
+
+import { useEffect, useState } from "react";
+import { alertPosition, isWeather, type AlertLite } from "./alerts";
+import { emit, load, on, remove, save } from "./bus";
+import type { CommuteEnd } from "./commutes";
+import { distanceToPathM, type LatLon } from "./geo";
+import { ROUTE_BUFFER_M } from "./routeRisk";
+import type { RouteCandidate } from "./routes";
+
+export type ActiveRoute = {
+  id: string;
+  name: string;
+  from: CommuteEnd;
+  to: CommuteEnd;
+  path: LatLon[];
+  distanceM: number;
+  durationS: number;
+  selectedAt: number;               // epoch ms
+};
+
+const MAX_PATH_POINTS = 2000;       // 太長就抽稀，避免 localStorage 爆掉
+
+function parseEnd(raw: unknown): CommuteEnd | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const r = raw as Record<string, unknown>;
+  const lat = Number(r.lat);
+  const lon = Number(r.lon);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  return { lat, lon, label: typeof r.label === "string" ? r.label : "" };
+}
+
+/** 驗證存起來的路線；不合法就回 undefined */
+export function parseActiveRoute(raw: unknown): ActiveRoute | undefined {
+  if (typeof raw !== "object" || raw === null) return undefined;
+  const r = raw as Record<string, unknown>;
+  const from = parseEnd(r.from);
+  const to = parseEnd(r.to);
+  const path = Array.isArray(r.path)
+    ? r.path.map(parseEnd).filter((p): p is CommuteEnd => p !== null).map(({ lat, lon }) => ({ lat, lon }))
+    : [];
+  if (typeof r.id !== "string" || !from || !to || path.length < 2) return undefined;
+  return {
+    id: r.id,
+    name: typeof r.name === "string" && r.name ? r.name : "Route",
+    from,
+    to,
+    path,
+    distanceM: Number(r.distanceM) || 0,
+    durationS: Number(r.durationS) || 0,
+    selectedAt: Number(r.selectedAt) || 0,
+  };
+}
+
+export function getActiveRoute(): ActiveRoute | null {
+  return load("route.active") ?? null;
+}
+
+export function setActiveRoute(route: Omit<ActiveRoute, "selectedAt">) {
+  const step = Math.ceil(route.path.length / MAX_PATH_POINTS);
+  const path = step > 1
+    ? route.path.filter((_, i) => i % step === 0 || i === route.path.length - 1)
+    : route.path;
+  const next: ActiveRoute = { ...route, path: path.map(({ lat, lon }) => ({ lat, lon })), selectedAt: Date.now() };
+  save("route.active", next);
+  emit("route:active", next);
+  emit("alerts:maybeChanged");
+}
+
+export function clearActiveRoute() {
+  remove("route.active");
+  emit("route:active", null);
+  emit("alerts:maybeChanged");
+}
+
+/** React hook：目前路線（含其他分頁的變更） */
+export function useActiveRoute(): ActiveRoute | null {
+  const [route, setRoute] = useState<ActiveRoute | null>(getActiveRoute);
+  useEffect(() => on("route:active", setRoute), []);
+  return route;
+}
+
+/** 告警是否在路線上（天氣告警不算） */
+export function isOnRoute(a: AlertLite, path: LatLon[], bufferM = ROUTE_BUFFER_M) {
+  const p = alertPosition(a);
+  return !isWeather(a) && p != null && distanceToPathM({ lat: p.lat, lon: p.lng }, path) <= bufferM;
+}
+
+/** 把規劃結果設為目前路線 */
+export function selectRoute(
+  route: Pick<RouteCandidate, "id" | "name" | "path" | "distanceM" | "durationS">,
+  ends: Pick<ActiveRoute, "from" | "to">
+) {
+  setActiveRoute({
+    id: route.id,
+    name: route.name,
+    from: ends.from,
+    to: ends.to,
+    path: route.path,
+    distanceM: route.distanceM,
+    durationS: route.durationS,
+  });
+}
+
+/** 同一條路線（id 一樣且起訖點相同；不同查詢的 id 可能重複） */
+export function isSameRoute(a: ActiveRoute | null, id: string, ends: Pick<ActiveRoute, "from" | "to">) {
+  const near = (p: LatLon, q: LatLon) => Math.abs(p.lat - q.lat) < 1e-5 && Math.abs(p.lon - q.lon) < 1e-5;
+  return !!a && a.id === id && near(a.from, ends.from) && near(a.to, ends.to);
+}
@@ -0,0 +1,263 @@
+// src/lib/alerts.ts
+// 告警領域模組：唯一的 AlertLite 型別 + list-alerts 執行期驗證 + 托盤 / 頁面 view 轉換
+
+import { findIncidentType } from "./incidentTypes";
+import { haversineM, type LatLon } from "./geo";
+import { getSettings, updateSettings } from "./settings";
+
+// ===== 型別 =====
+export type AlertSeverity = "low" | "medium" | "high";
+
+/** 後端 cluster 與本地天氣告警共用的告警型別 */
+export type AlertLite = {
+  clusterId: string;
+  incidentType: string;             // 代碼，如 "ROAD_HAZARD"；天氣為 "severe_weather"
+  status?: "pending" | "active";
+  reportCount?: number;
+  expiresAt: number;                // epoch seconds
+  severity?: AlertSeverity;
+  lat?: number;
+  lng?: number;
+  photoUrls?: string[];
+  ackCount?: number;
+  lastReportAt?: number;            // epoch seconds
+  distanceM?: number;               // 與騎士的距離（前端計算，alertsService 填入）
+  onRoute?: boolean;                // 在目前選定的路線上（前端計算，alertsService 填入）
+
+  // weather / system 專用欄位
+  description?: string;
+  ackable?: boolean;                // 天氣請設 false
+  address?: string;                 // 托盤右上角顯示
+  agoText?: string;
+};
+
+export type AlertsPayload = {
+  ok: boolean;
+  serverNow: number;
+  alerts: AlertLite[];
+};
+
+/** 托盤用：多一個剩餘秒數 */
+export type TrayAlert = AlertLite & { remaining: number };
+
+/** AlertsPage 用 */
+export type Priority = "CRITICAL" | "HIGH" | "MEDIUM" | "LOW";
+export type Category = "WEATHER" | "TRAFFIC" | "INFRA" | "SAFETY";
+
+export const PRIORITIES: Priority[] = ["CRITICAL", "HIGH", "MEDIUM", "LOW"];
+export const CATEGORIES: Category[] = ["WEATHER", "TRAFFIC", "INFRA", "SAFETY"];
+
+export type AlertModel = {
+  id: string;
+  title: string;
+  description: string;
+  location: string;
+  time?: string;
+  timestamp?: number | string;      // 用於相對時間
+  expiresAt?: number;               // epoch seconds
+  lat?: number;
+  lng?: number;
+  distanceM?: number;
+  priority: Priority;
+  category: Category;
+};
+
+// ===== 執行期驗證 =====
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
+const str = (v: unknown) => (typeof v === "string" && v.trim() ? v : undefined);
+
+function num(v: unknown) {
+  if (typeof v !== "number" && typeof v !== "string") return undefined;
+  if (v === "") return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+function severityOf(v: unknown): AlertSeverity | undefined {
+  const s = String(v ?? "").toLowerCase();
+  return s === "low" || s === "medium" || s === "high" ? s : undefined;
+}
+
+/** 驗證單筆告警；缺 clusterId / expiresAt 就回 null */
+export function parseAlert(raw: unknown): AlertLite | null {
+  if (!isObj(raw)) return null;
+  const clusterId = str(raw.clusterId) ?? (typeof raw.clusterId === "number" ? String(raw.clusterId) : undefined);
+  const expiresAt = num(raw.expiresAt);
+  if (!clusterId || expiresAt == null) return null;
+
+  const status = raw.status === "pending" || raw.status === "active" ? raw.status : undefined;
+  const photoUrls = Array.isArray(raw.photoUrls) ? raw.photoUrls.filter((u): u is string => typeof u === "string") : undefined;
+
+  return {
+    clusterId,
+    incidentType: str(raw.incidentType) ?? "OTHER",
+    status,
+    reportCount: num(raw.reportCount),
+    expiresAt,
+    severity: severityOf(raw.severity),
+    lat: num(raw.lat),
+    lng: num(raw.lng),
+    photoUrls,
+    ackCount: num(raw.ackCount),
+    lastReportAt: num(raw.lastReportAt),
+    distanceM: num(raw.distanceM),
+    onRoute: raw.onRoute === true ? true : undefined,
+    description: str(raw.description),
+    ackable: typeof raw.ackable === "boolean" ? raw.ackable : undefined,
+    address: str(raw.address),
+    agoText: str(raw.agoText),
+  };
+}
+
+/** 驗證告警陣列：不合法的項目丟掉並警告 */
+export function parseAlertList(raw: unknown): AlertLite[] {
+  if (!Array.isArray(raw)) return [];
+  const out: AlertLite[] = [];
+  for (const item of raw) {
+    const a = parseAlert(item);
+    if (a) out.push(a);
+    else console.warn("dropped invalid alert", item);
+  }
+  return out;
+}
+
+/** 驗證 list-alerts 回應；格式不對直接丟錯，避免把壞資料寫進 cs.alerts.list */
+export function parseAlertsPayload(raw: unknown): AlertsPayload {
+  if (!isObj(raw)) throw new Error("Invalid list-alerts payload");
+  if (raw.ok === false) throw new Error(str(raw.message) ?? "list-alerts returned ok=false");
+  if (!Array.isArray(raw.alerts)) throw new Error("list-alerts payload has no alerts array");
+  return {
+    ok: true,
+    serverNow: num(raw.serverNow) ?? Math.floor(Date.now() / 1000),
+    alerts: parseAlertList(raw.alerts),
+  };
+}
+
+// ===== 判斷 / 顯示小工具 =====
+export function isWeather(a: AlertLite) {
+  const t = String(a.incidentType || "").toLowerCase();
+  if (t.includes("weather")) return true;
+  const id = String(a.clusterId || "");
+  if (id.startsWith("weather#")) return true;
+  return false;
+}
+
+export function isAckable(a: AlertLite) {
+  if (a.ackable === false) return false; // 明確禁止
+  if (isWeather(a)) return false;        // 天氣不顯示 Confirm
+  return true;
+}
+
+export function sevToClass(sev: string) {
+  if (sev === "high") return "sev-high";
+  if (sev === "medium") return "sev-medium";
+  return "sev-low";
+}
+
+export function titleOf(a: AlertLite) {
+  if (isWeather(a)) return "Severe Weather Warning";
+  return a.incidentType.replace(/_/g, " ").trim() || "Incident";
+}
+
+export function formatMMSS(sec: number) {
+  const m = Math.floor(sec / 60);
+  const s = Math.floor(sec % 60);
+  return `${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+}
+
+/** 告警座標：有 lat/lng 就用；天氣告警從 clusterId（weather#-37.814_144.963）解析 */
+export function alertPosition(a: AlertLite): { lat: number; lng: number } | null {
+  if (a.lat != null && a.lng != null) return { lat: a.lat, lng: a.lng };
+  const m = a.clusterId.match(/^weather#(-?\d+(?:\.\d+)?)_(-?\d+(?:\.\d+)?)$/);
+  if (m) return { lat: Number(m[1]), lng: Number(m[2]) };
+  return null;
+}
+
+/** incidentType → 地圖標記顏色（和 INCIDENT_TYPES 一致） */
+export function markerColor(a: AlertLite) {
+  if (isWeather(a)) return "#0ea5e9";
+  return findIncidentType(a.incidentType.toUpperCase())?.color ?? "#6b7280";
+}
+
+// ===== 距離 / 關聯範圍 =====
+
+/** 使用者選的告警半徑（公尺，存在 settings） */
+export function getAlertRadiusM(): number {
+  return getSettings().alertRadiusM;
+}
+
+/** 更新半徑；alertsService 收到 settings 事件會重新計算 */
+export function setAlertRadiusM(m: number) {
+  updateSettings({ alertRadiusM: m });
+}
+
+/** 帶上與騎士的距離；不知道位置就保持 undefined */
+export function withDistance(a: AlertLite, here: LatLon | null): AlertLite {
+  const pos = alertPosition(a);
+  if (!here || !pos) return { ...a, distanceM: undefined };
+  return { ...a, distanceM: Math.round(haversineM(here, { lat: pos.lat, lon: pos.lng })) };
+}
+
+/** 半徑內（或距離未知）、或在目前選定的路線上，才算相關 */
+export function isRelevant(a: AlertLite, radiusM = getAlertRadiusM()) {
+  return a.onRoute === true || a.distanceM == null || a.distanceM <= radiusM;
+}
+
+// ===== View 轉換 =====
+
+/** 托盤：過濾過期 + 剩餘時間長的在上 */
+export function toTrayAlerts(list: AlertLite[], nowSec = Math.floor(Date.now() / 1000)): TrayAlert[] {
+  return list
+    .map(a => ({ ...a, remaining: Math.max(0, a.expiresAt - nowSec) }))
+    .filter(a => a.remaining > 0)
+    .sort((a, b) => b.remaining - a.remaining);
+}
+
+/** incidentType → AlertsPage 類別 */
+export function categoryOf(a: AlertLite): Category {
+  if (isWeather(a)) return "WEATHER";
+  switch (a.incidentType.toUpperCase()) {
+    case "VEHICLE_COLLISION":
+    case "NEAR_MISS":
+    case "AGGRESSIVE_DRIVER":
+      return "TRAFFIC";
+    case "ROAD_HAZARD":
+    case "POOR_INFRA":
+      return "INFRA";
+    default:
+      return "SAFETY";
+  }
+}
+
+// 高嚴重度且回報數達門檻 → CRITICAL
+const CRITICAL_REPORTS = 5;
+
+/** severity + 回報數 → AlertsPage 優先度 */
+export function priorityOf(a: AlertLite): Priority {
+  if (a.severity === "high") {
+    return (a.reportCount ?? 0) >= CRITICAL_REPORTS ? "CRITICAL" : "HIGH";
+  }
+  if (a.severity === "low") return "LOW";
+  return "MEDIUM";
+}
+
+/** AlertsPage 卡片 */
+export function toAlertModel(a: AlertLite): AlertModel {
+  const pos = alertPosition(a);
+  const reports = a.reportCount ?? 0;
+  return {
+    id: a.clusterId,
+    title: isWeather(a) ? titleOf(a) : findIncidentType(a.incidentType.toUpperCase())?.label ?? titleOf(a),
+    description:
+      a.description ||
+      `${reports} report${reports === 1 ? "" : "s"} from cyclists nearby` +
+        (typeof a.ackCount === "number" ? ` · confirmed by ${a.ackCount}` : ""),
+    location: a.address || (pos ? `${pos.lat.toFixed(4)}, ${pos.lng.toFixed(4)}` : "Your area"),
+    timestamp: a.lastReportAt != null ? a.lastReportAt * 1000 : undefined,
+    expiresAt: a.expiresAt,
+    lat: pos?.lat,
+    lng: pos?.lng,
+    distanceM: a.distanceM,
+    priority: priorityOf(a),
+    category: categoryOf(a),
+  };
+}
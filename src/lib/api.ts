@@ -18,15 +18,26 @@ const CREATE_URL = import.meta.env.VITE_API_CREATE_INCIDENT as string | undefine
 const UPLOAD_URL = import.meta.env.VITE_API_UPLOAD_IMAGE as string | undefined;
 const BUCKET     = import.meta.env.VITE_UPLOAD_BUCKET as string | undefined;
 const PREFIX     = import.meta.env.VITE_UPLOAD_PREFIX as string | undefined;
+const PHOTO_BASE = import.meta.env.VITE_PHOTO_BASE_URL as string | undefined; // 例如 CloudFront；沒設就用 bucket 的 S3 網址
 
-/** 建立事故事件 (呼叫 createIncident Lambda) */
-export async function createIncident(payload: CreateIncidentPayload) {
+/** Picture 欄位的 S3 key → 可開啟的 URL（已經是 URL 就原樣回傳） */
+export function photoUrl(keyOrUrl: string) {
+  if (/^https?:\/\//i.test(keyOrUrl)) return keyOrUrl;
+  const base = PHOTO_BASE || (BUCKET ? `https://${BUCKET}.s3.amazonaws.com` : "");
+  return base ? `${base.replace(/\/+$/, "")}/${keyOrUrl.replace(/^\/+/, "")}` : keyOrUrl;
+}
+
+/**
+ * 建立事故事件 (呼叫 createIncident Lambda)
+ * idempotencyKey：同一筆回報重送時帶一樣的值（佇列 id），回應遺失後重試也不會多出一筆事故
+ */
+export async function createIncident(payload: CreateIncidentPayload, idempotencyKey?: string) {
   if (!CREATE_URL) throw new Error("Missing VITE_API_CREATE_INCIDENT");
 
   const res = await fetch(CREATE_URL, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(payload),
+    body: JSON.stringify({ ...payload, idempotencyKey }),
   });
 
   const data = await res.json().catch(() => ({}));
@@ -36,8 +47,11 @@ export async function createIncident(payload: CreateIncidentPayload) {
   return data as { ok: true; INCIDENT_NO: string; Timestamp: string };
 }
 
-/** 取得 S3 上傳 URL（由 incidentImageUploadUrl Lambda 回傳） */
-export async function getUploadUrl(filename: string, contentType: string) {
+/**
+ * 取得 S3 上傳 URL（由 incidentImageUploadUrl Lambda 回傳）
+ * idempotencyKey：同一張照片重送時帶一樣的值（內容雜湊），後端回同一個 key，不會多出重複物件
+ */
+export async function getUploadUrl(filename: string, contentType: string, idempotencyKey?: string) {
   if (!UPLOAD_URL) throw new Error("Missing VITE_API_UPLOAD_IMAGE");
 
   const res = await fetch(UPLOAD_URL, {
@@ -48,6 +62,7 @@ export async function getUploadUrl(filename: string, contentType: string) {
       contentType,
       bucket: BUCKET,
       prefix: PREFIX,
+      idempotencyKey,
     }),
   });
 
@@ -0,0 +1,202 @@
+// src/lib/bus.ts
+// 型別化事件匯流排 + 本地儲存：
+//   - emit / on：事件名稱與 payload 型別在 BusEvents 宣告，打錯名字或 payload 會在編譯期報錯
+//   - 標記為跨分頁的事件透過 BroadcastChannel 同步到其他分頁
+//   - load / save：localStorage（cs.*）包上 schema 版本，讀取時驗證 + 遷移舊格式
+
+import { parseActiveRoute, type ActiveRoute } from "./activeRoute";
+import { parseAlertList, type AlertLite } from "./alerts";
+import { parseCommutes, type Commute } from "./commutes";
+import type { LatLon } from "./geo";
+import type { ProximityWarning } from "./notify";
+import type { LastRisk } from "./offline";
+import { parsePlaces, type SavedPlace } from "./places";
+import { parseSettings, type Settings } from "./settings";
+import type { RideState } from "../services/rideService";
+import type { RiskState } from "../services/riskService";
+
+// ===== 事件 =====
+
+export type BusEvents = {
+  address: string;                          // 目前地址（riskService）
+  coords: LatLon;                           // 目前位置（riskService）
+  risk: RiskState;                          // riskService 狀態變更（僅本分頁）
+  "alerts:total": { total: number };        // 半徑內告警數（alertsService）
+  "alerts:list": { list: AlertLite[] };     // 合併後清單（alertsService）
+  "alerts:maybeChanged": void;              // 請 alertsService 立刻重抓
+  "weather:list": void;                     // cs.weather.alerts 變了
+  bell: { count: number };                  // 本地通知計數（notify.ts）
+  "prompt-geo": void;                       // Header「Change」→ Home 打開 GeoPrompt
+  "reports:queue": void;                    // 離線回報佇列變了
+  settings: Settings;                       // 設定變更
+  places: SavedPlace[];                     // 常用地點變更
+  commutes: Commute[];                      // 通勤清單變更
+  "push:status": void;                      // 推播訂閱狀態變了
+  ride: RideState;                          // rideService 狀態變更（僅本分頁）
+  "ride:warning": ProximityWarning;         // 騎乘中接近告警（notify.ts，僅本分頁）
+  rides: void;                              // 騎乘紀錄（IndexedDB）變了
+  "route:active": ActiveRoute | null;       // 目前選定的路線（null = 取消）
+};
+
+export type BusEvent = keyof BusEvents;
+
+// 會同步到其他分頁的事件（其餘只在本分頁）
+const CROSS_TAB: ReadonlySet<BusEvent> = new Set<BusEvent>([
+  "address",
+  "coords",
+  "alerts:total",
+  "alerts:list",
+  "bell",
+  "reports:queue",
+  "settings",
+  "places",
+  "commutes",
+  "push:status",
+  "rides",
+  "route:active",
+]);
+
+type Args<K extends BusEvent> = BusEvents[K] extends void ? [] : [payload: BusEvents[K]];
+
+const target = new EventTarget();
+const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel("cycsafe") : null;
+
+// 其他分頁送來的事件：只在本分頁重播，不再轉送
+channel?.addEventListener("message", (e: MessageEvent<{ name?: BusEvent; payload?: unknown }>) => {
+  const { name, payload } = e.data ?? {};
+  if (name && CROSS_TAB.has(name)) dispatchLocal(name, payload);
+});
+
+function dispatchLocal(name: BusEvent, payload: unknown) {
+  target.dispatchEvent(new CustomEvent(name, { detail: payload }));
+}
+
+/** 發送事件（跨分頁事件會同步到其他分頁） */
+export function emit<K extends BusEvent>(name: K, ...args: Args<K>) {
+  const payload = args[0];
+  dispatchLocal(name, payload);
+  if (channel && CROSS_TAB.has(name)) {
+    try {
+      channel.postMessage({ name, payload });
+    } catch (e) {
+      console.warn("bus broadcast failed", name, e);
+    }
+  }
+}
+
+/** 訂閱事件；回傳取消訂閱函式（直接放在 useEffect 的 return） */
+export function on<K extends BusEvent>(name: K, handler: (payload: BusEvents[K]) => void): () => void {
+  const listener = (e: Event) => handler((e as CustomEvent<BusEvents[K]>).detail);
+  target.addEventListener(name, listener);
+  return () => target.removeEventListener(name, listener);
+}
+
+// ===== 儲存 =====
+
+/** localStorage 欄位（實際 key 為 `cs.<name>`） */
+export type StoreSchema = {
+  address: string;
+  coords: LatLon;
+  "alerts.list": AlertLite[];
+  "alerts.total": number;
+  "alerts.updatedAt": number;               // epoch ms
+  "weather.alerts": AlertLite[];
+  acked: Record<string, boolean>;           // 已確認的 clusterId
+  bellCount: number;
+  "notify.cooldownUntil": number;           // epoch ms
+  "risk.last": LastRisk;
+  settings: Settings;
+  places: SavedPlace[];
+  commutes: Commute[];
+  "route.active": ActiveRoute;
+};
+
+export type StoreKey = keyof StoreSchema;
+
+// 格式有不相容變更時 +1，並在 MIGRATIONS 補上轉換
+const SCHEMA_VERSION = 1;
+
+type Envelope = { v: number; data: unknown };
+
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
+const finite = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : undefined);
+
+/** 各欄位的驗證器：回傳 undefined 代表資料不合法（load 會當作沒有） */
+const VALIDATORS: { [K in StoreKey]: (raw: unknown) => StoreSchema[K] | undefined } = {
+  address: (raw) => (typeof raw === "string" && raw.trim() ? raw : undefined),
+  coords: (raw) => {
+    if (!isObj(raw)) return undefined;
+    const lat = finite(raw.lat);
+    const lon = finite(raw.lon);
+    return lat != null && lon != null ? { lat, lon } : undefined;
+  },
+  "alerts.list": (raw) => (Array.isArray(raw) ? parseAlertList(raw) : undefined),
+  "alerts.total": (raw) => finite(Number(raw)),
+  "alerts.updatedAt": (raw) => finite(Number(raw)),
+  "weather.alerts": (raw) => (Array.isArray(raw) ? parseAlertList(raw) : undefined),
+  acked: (raw) =>
+    isObj(raw)
+      ? Object.fromEntries(Object.entries(raw).filter(([, v]) => v === true).map(([k]) => [k, true]))
+      : undefined,
+  bellCount: (raw) => finite(Number(raw)),
+  "notify.cooldownUntil": (raw) => finite(Number(raw)),
+  "risk.last": (raw) =>
+    isObj(raw) && finite(raw.risk) != null && finite(raw.at) != null ? (raw as LastRisk) : undefined,
+  settings: (raw) => (isObj(raw) ? parseSettings(raw) : undefined),
+  places: (raw) => (Array.isArray(raw) ? parsePlaces(raw) : undefined),
+  commutes: (raw) => (Array.isArray(raw) ? parseCommutes(raw) : undefined),
+  "route.active": parseActiveRoute,
+};
+
+// v0 → v1：舊版直接存原始值（字串或 JSON），沒有版本外框
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  0: (data) => data,
+};
+
+const storageKey = (key: StoreKey) => `cs.${key}`;
+
+function unwrap(text: string): Envelope {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (isObj(parsed) && typeof parsed.v === "number" && "data" in parsed) {
+      return { v: parsed.v, data: parsed.data };
+    }
+    return { v: 0, data: parsed };
+  } catch {
+    return { v: 0, data: text }; // 舊版的純字串（例如 cs.address）
+  }
+}
+
+/** 讀取；不存在或不合法就回 fallback */
+export function load<K extends StoreKey>(key: K): StoreSchema[K] | undefined;
+export function load<K extends StoreKey>(key: K, fallback: StoreSchema[K]): StoreSchema[K];
+export function load<K extends StoreKey>(key: K, fallback?: StoreSchema[K]) {
+  try {
+    const text = localStorage.getItem(storageKey(key));
+    if (text == null) return fallback;
+
+    let { v, data } = unwrap(text);
+    if (v > SCHEMA_VERSION) return fallback; // 新版寫的資料，舊版程式不碰
+    for (; v < SCHEMA_VERSION; v++) data = (MIGRATIONS[v] ?? ((d) => d))(data);
+
+    return VALIDATORS[key](data) ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function save<K extends StoreKey>(key: K, value: StoreSchema[K]) {
+  try {
+    localStorage.setItem(storageKey(key), JSON.stringify({ v: SCHEMA_VERSION, data: value }));
+  } catch (e) {
+    console.warn("save failed", key, e); // 例如容量不足 / 隱私模式
+  }
+}
+
+export function remove(key: StoreKey) {
+  try {
+    localStorage.removeItem(storageKey(key));
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,111 @@
+// src/lib/commutes.ts
+// 通勤清單：起訖點配對存在 bus store 的 commutes 欄位；沿線走廊內的告警 + 風險取樣點
+
+import { useEffect, useState } from "react";
+import { alertPosition, type AlertLite } from "./alerts";
+import { emit, load, on, save } from "./bus";
+import { distanceToSegmentM, haversineM, type LatLon } from "./geo";
+import { parseLatLng } from "./geocode";
+
+export type CommuteEnd = LatLon & { label: string };
+
+export type Commute = {
+  id: string;
+  name: string;                     // 例如 "Morning commute"
+  from: CommuteEnd;
+  to: CommuteEnd;
+};
+
+/** 走廊半寬（公尺）：距離起訖連線 / 地點這麼近的告警才算「在路上」 */
+export const CORRIDOR_M = 500;
+
+const MAX_COMMUTES = 10;
+
+function parseEnd(raw: unknown): CommuteEnd | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const r = raw as Record<string, unknown>;
+  const lat = Number(r.lat);
+  const lon = Number(r.lon);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  return { lat, lon, label: typeof r.label === "string" && r.label ? r.label : `${lat.toFixed(5)}, ${lon.toFixed(5)}` };
+}
+
+/** 驗證存起來的清單；不合法的項目直接略過 */
+export function parseCommutes(raw: unknown[]): Commute[] {
+  return raw.flatMap((r) => {
+    if (typeof r !== "object" || r === null) return [];
+    const c = r as Record<string, unknown>;
+    const from = parseEnd(c.from);
+    const to = parseEnd(c.to);
+    if (!from || !to || typeof c.id !== "string") return [];
+    return [{ id: c.id, name: typeof c.name === "string" && c.name.trim() ? c.name.trim() : "Commute", from, to }];
+  });
+}
+
+export function getCommutes(): Commute[] {
+  return load("commutes", []);
+}
+
+export function addCommute(c: Omit<Commute, "id">): Commute[] {
+  const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  return commit([...getCommutes(), { ...c, id }].slice(-MAX_COMMUTES));
+}
+
+export function removeCommute(id: string): Commute[] {
+  return commit(getCommutes().filter((c) => c.id !== id));
+}
+
+/** React hook：通勤清單（含其他分頁的變更） */
+export function useCommutes(): Commute[] {
+  const [list, setList] = useState<Commute[]>(getCommutes);
+  useEffect(() => on("commutes", setList), []);
+  return list;
+}
+
+/** 風險取樣點：起點、中點、終點（風險 Lambda 只能查單點） */
+export function commuteSamples(c: Commute): LatLon[] {
+  const mid = { lat: (c.from.lat + c.to.lat) / 2, lon: (c.from.lon + c.to.lon) / 2 };
+  return [c.from, mid, c.to];
+}
+
+/** 起訖連線走廊內、尚未過期的告警 */
+export function alertsOnCommute(list: AlertLite[], c: Commute, corridorM = CORRIDOR_M, nowS = Date.now() / 1000) {
+  return list.filter((a) => {
+    const pos = alertPosition(a);
+    if (!pos || a.expiresAt <= nowS) return false;
+    return distanceToSegmentM({ lat: pos.lat, lon: pos.lng }, c.from, c.to) <= corridorM;
+  });
+}
+
+/** 地點周圍、尚未過期的告警 */
+export function alertsNearPlace(list: AlertLite[], p: LatLon, radiusM = CORRIDOR_M, nowS = Date.now() / 1000) {
+  return list.filter((a) => {
+    const pos = alertPosition(a);
+    if (!pos || a.expiresAt <= nowS) return false;
+    return haversineM({ lat: pos.lat, lon: pos.lng }, p) <= radiusM;
+  });
+}
+
+/** PlanRoutePage 預填起訖點的連結；帶 routeId 就是該路線的詳細頁（可分享） */
+export function planRouteLink(c: Pick<Commute, "from" | "to">, routeId?: string) {
+  const q = new URLSearchParams({
+    from: c.from.label,
+    fromAt: `${c.from.lat},${c.from.lon}`,
+    to: c.to.label,
+    toAt: `${c.to.lat},${c.to.lon}`,
+  });
+  return `/plan-route${routeId ? `/${encodeURIComponent(routeId)}` : ""}?${q.toString()}`;
+}
+
+/** 從網址帶入的起訖點（?from=文字&fromAt=lat,lon） */
+export type RoutePrefill = { text: string; at: LatLon | null };
+
+export function readRoutePrefill(params: URLSearchParams, key: "from" | "to"): RoutePrefill {
+  return { text: params.get(key) ?? "", at: parseLatLng(params.get(`${key}At`) ?? "") };
+}
+
+function commit(next: Commute[]) {
+  save("commutes", next);
+  emit("commutes", next);
+  return next;
+}
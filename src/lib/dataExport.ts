@@ -0,0 +1,131 @@
+// src/lib/dataExport.ts
+// 給議會 / 倡議用的匯出：事故與告警轉 CSV / GeoJSON，欄位命名跟 CreateIncidentPayload 一致（Incident_type、LGA…）
+
+import { alertPosition, titleOf, type AlertLite } from "./alerts";
+import { downloadText, safeFileName } from "./download";
+import { findIncidentType, getIncidentTypeLabel } from "./incidentTypes";
+import { isoDay, type DateRange, type IncidentRecord } from "./insights";
+
+export type ExportFormat = "csv" | "geojson";
+
+type Row = Record<string, string | number | string[] | undefined>;
+
+const INCIDENT_COLUMNS = [
+  "INCIDENT_NO",
+  "Timestamp",
+  "Incident_type",
+  "Incident_type_desc",
+  "Incident_severity",
+  "Incident_description",
+  "Latitude",
+  "Longitude",
+  "LGA",
+  "Verification",
+  "Picture",
+] as const;
+
+const ALERT_COLUMNS = [
+  "Cluster_id",
+  "Timestamp",
+  "Expires_at",
+  "Status",
+  "Incident_type",
+  "Incident_type_desc",
+  "Incident_severity",
+  "Incident_description",
+  "Latitude",
+  "Longitude",
+  "Address",
+  "Report_count",
+  "Ack_count",
+  "Picture",
+] as const;
+
+const MAX_SCOPE = 36;               // 檔名裡 LGA 部分的長度上限（日期一定要留著）
+
+const isoTime = (ms?: number) => (ms != null && Number.isFinite(ms) ? new Date(ms).toISOString() : undefined);
+
+function incidentRow(r: IncidentRecord): Row {
+  return {
+    INCIDENT_NO: r.id,
+    Timestamp: isoTime(r.at),
+    Incident_type: r.type,
+    Incident_type_desc: r.typeDesc ?? getIncidentTypeLabel(r.type),
+    Incident_severity: r.severity,
+    Incident_description: r.description,
+    Latitude: r.lat,
+    Longitude: r.lon,
+    LGA: r.lga,
+    Verification: r.verification,
+    Picture: r.photos,
+  };
+}
+
+function alertRow(a: AlertLite): Row {
+  const pos = alertPosition(a);
+  return {
+    Cluster_id: a.clusterId,
+    Timestamp: isoTime(a.lastReportAt != null ? a.lastReportAt * 1000 : undefined),
+    Expires_at: isoTime(a.expiresAt * 1000),
+    Status: a.status,
+    Incident_type: a.incidentType,
+    Incident_type_desc: findIncidentType(a.incidentType.toUpperCase())?.label ?? titleOf(a),
+    Incident_severity: a.severity,
+    Incident_description: a.description,
+    Latitude: pos?.lat,
+    Longitude: pos?.lng,
+    Address: a.address,
+    Report_count: a.reportCount,
+    Ack_count: a.ackCount,
+    Picture: a.photoUrls,
+  };
+}
+
+// ===== CSV =====
+
+/** 一格 CSV：照片多張用空白分隔；文字（含合併後的陣列）開頭是 = + - @ Tab CR 時加 ' 避免試算表當公式執行（OWASP CSV injection） */
+function csvCell(v: Row[string]) {
+  if (v == null) return "";
+  let s = Array.isArray(v) ? v.join(" ") : String(v);
+  if (typeof v !== "number" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(columns: readonly string[], rows: Row[]) {
+  const lines = [columns.join(","), ...rows.map((r) => columns.map((c) => csvCell(r[c])).join(","))];
+  return `\uFEFF${lines.join("\r\n")}\r\n`; // BOM：Excel 才會用 UTF-8 開
+}
+
+// ===== GeoJSON =====
+
+/** 沒座標的列也保留（geometry: null），筆數才對得上 CSV */
+function toGeoJson(rows: Row[]) {
+  const features = rows.map((r) => {
+    const { Latitude: lat, Longitude: lon, ...properties } = r;
+    return {
+      type: "Feature",
+      geometry: typeof lat === "number" && typeof lon === "number" ? { type: "Point", coordinates: [lon, lat] } : null,
+      properties,
+    };
+  });
+  return JSON.stringify({ type: "FeatureCollection", features }, null, 2);
+}
+
+// ===== 下載 =====
+
+function download(base: string, format: ExportFormat, columns: readonly string[], rows: Row[]) {
+  const name = safeFileName(base);
+  if (format === "csv") downloadText(`${name}.csv`, toCsv(columns, rows), "text/csv");
+  else downloadText(`${name}.geojson`, toGeoJson(rows), "application/geo+json");
+}
+
+/** DataInsights：目前期間 + LGA 篩選後的事故 */
+export function exportIncidents(records: IncidentRecord[], format: ExportFormat, range: DateRange, areas: string[] = []) {
+  const scope = areas.length ? safeFileName(areas.join("-")).slice(0, MAX_SCOPE).replace(/-+$/, "") : "all-areas";
+  download(`cycsafe-incidents-${scope}-${isoDay(range.from)}-to-${isoDay(range.to)}`, format, INCIDENT_COLUMNS, records.map(incidentRow));
+}
+
+/** AlertsPage：目前篩選後的告警 */
+export function exportAlerts(alerts: AlertLite[], format: ExportFormat) {
+  download(`cycsafe-alerts-${isoDay(Date.now())}`, format, ALERT_COLUMNS, alerts.map(alertRow));
+}
@@ -0,0 +1,69 @@
+// src/lib/departures.ts
+// 出發時間規劃：未來幾小時內每個出發時段的路線風險 = 沿線告警 + 預報天氣 + 時段風險
+
+import type { AlertLite } from "./alerts";
+import { worstWeather, type ForecastHour } from "./forecast";
+import type { LatLon } from "./geo";
+import { riskLabel, type RiskLabel } from "./risk";
+import { scoreRoute } from "./routeRisk";
+import { getSettings } from "./settings";
+import { timeOfDayPoints } from "./timeOfDay";
+import type { RiskWeather } from "./weatherAlerts";
+
+export type DepartureSlot = {
+  at: number;                       // 出發時間（epoch ms）
+  score: number;                    // 0–100
+  label: RiskLabel;
+  alertCount: number;               // 出發時仍有效的沿線告警
+  weather?: RiskWeather;            // 騎乘期間最差的預報天氣
+};
+
+export type DepartureWindow = { from: number; to: number; score: number; label: RiskLabel };
+
+const STEP_MIN = 30;
+const WINDOW_SLACK = 5;             // 與最低分差距在這之內的相鄰時段併成同一個窗口
+
+/** 出發時段：現在 + 之後每個整點 / 半點，直到 hours 小時後 */
+export function departureTimes(hours = 12, from = Date.now()): number[] {
+  const step = STEP_MIN * 60_000;
+  const times = [from];
+  for (let t = Math.ceil(from / step) * step; t <= from + hours * 3600_000; t += step) {
+    if (t - from >= step / 2) times.push(t); // 太接近「現在」的就不重複列
+  }
+  return times;
+}
+
+/**
+ * 評估每個出發時段。告警只看出發時還沒過期的（新告警無法預測，所以越遠的時段越樂觀）
+ */
+export function planDepartures(
+  route: { path: LatLon[]; durationS: number },
+  alerts: AlertLite[],
+  forecast: ForecastHour[],
+  hours = 12,
+  from = Date.now()
+): DepartureSlot[] {
+  const settings = getSettings();
+  return departureTimes(hours, from).map((at) => {
+    const weather = worstWeather(forecast, at, at + route.durationS * 1000);
+    const base = scoreRoute(route.path, alerts, weather, at / 1000);
+    const score = Math.round(Math.min(100, base.score + timeOfDayPoints(at)));
+    return { at, score, label: riskLabel(score, settings), alertCount: base.alerts.length, weather };
+  });
+}
+
+/** 最安全的連續時段（同分取最早） */
+export function safestWindow(slots: DepartureSlot[]): DepartureWindow | null {
+  if (slots.length === 0) return null;
+  let best = 0;
+  slots.forEach((s, i) => { if (s.score < slots[best].score) best = i; });
+
+  const limit = slots[best].score + WINDOW_SLACK;
+  let lo = best;
+  let hi = best;
+  while (lo > 0 && slots[lo - 1].score <= limit) lo--;
+  while (hi < slots.length - 1 && slots[hi + 1].score <= limit) hi++;
+
+  const score = Math.max(...slots.slice(lo, hi + 1).map((s) => s.score));
+  return { from: slots[lo].at, to: slots[hi].at, score, label: riskLabel(score, getSettings()) };
+}
@@ -0,0 +1,19 @@
+// src/lib/download.ts
+// 把前端產生的文字存成檔案（GPX / GeoJSON / CSV…）；不經伺服器
+
+export function downloadText(fileName: string, text: string, mime = "text/plain") {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mime};charset=utf-8` }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // 給瀏覽器一點時間開始下載再釋放
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** 檔名安全化：空白換成 -，去掉不合法字元 */
+export function safeFileName(name: string) {
+  return name.trim().replace(/[\\/:*?"<>|]+/g, "").replace(/\s+/g, "-").slice(0, 80) || "cycsafe";
+}
@@ -0,0 +1,68 @@
+// src/lib/forecast.ts
+// 逐時天氣預報（Open-Meteo 相容 API）：欄位換成與風險 Lambda 相同的 RiskWeather
+
+import type { LatLon } from "./geo";
+import type { RiskWeather } from "./weatherAlerts";
+
+export type ForecastHour = {
+  at: number;                       // epoch ms（該小時開始）
+  weather: RiskWeather;
+};
+
+type ForecastPayload = {
+  hourly?: {
+    time?: number[];
+    precipitation?: (number | null)[];
+    wind_speed_10m?: (number | null)[];
+    temperature_2m?: (number | null)[];
+  };
+  reason?: string;
+};
+
+// 從 .env 讀取；未設定時用 Open-Meteo 公開 API（免金鑰）
+const FORECAST_URL =
+  (import.meta.env.VITE_FORECAST_URL as string | undefined) || "https://api.open-meteo.com/v1/forecast";
+
+const numOrUndef = (v: number | null | undefined) => (v != null && Number.isFinite(v) ? v : undefined);
+
+/** 從現在這個小時起的逐時預報 */
+export async function fetchHourlyForecast(p: LatLon, hours = 13, signal?: AbortSignal): Promise<ForecastHour[]> {
+  const url = new URL(FORECAST_URL);
+  url.searchParams.set("latitude", p.lat.toFixed(4));
+  url.searchParams.set("longitude", p.lon.toFixed(4));
+  url.searchParams.set("hourly", "precipitation,wind_speed_10m,temperature_2m");
+  url.searchParams.set("wind_speed_unit", "ms");        // 與風險 Lambda 一樣用 m/s
+  url.searchParams.set("timeformat", "unixtime");
+  url.searchParams.set("forecast_hours", String(hours));
+
+  const res = await fetch(url.toString(), { headers: { Accept: "application/json" }, signal });
+  const data: ForecastPayload = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.reason || "Failed to load the weather forecast");
+
+  const h = data.hourly ?? {};
+  const times = Array.isArray(h.time) ? h.time : [];
+  return times.map((t, i) => ({
+    at: t * 1000,
+    weather: {
+      precipitation: numOrUndef(h.precipitation?.[i]),
+      windSpeed: numOrUndef(h.wind_speed_10m?.[i]),
+      temperature: numOrUndef(h.temperature_2m?.[i]),
+    },
+  }));
+}
+
+/** 一段時間內（出發 → 抵達）最差的天氣：風取最大、雨取最大 */
+export function worstWeather(hours: ForecastHour[], from: number, to: number): RiskWeather | undefined {
+  const HOUR = 3600_000;
+  const covered = hours.filter((h) => h.at + HOUR > from && h.at <= to);
+  if (covered.length === 0) return undefined;
+  const max = (xs: (number | undefined)[]) => {
+    const v = xs.filter((x): x is number => x != null);
+    return v.length ? Math.max(...v) : undefined;
+  };
+  return {
+    windSpeed: max(covered.map((h) => h.weather.windSpeed)),
+    precipitation: max(covered.map((h) => h.weather.precipitation)),
+    temperature: covered[0].weather.temperature,
+  };
+}
@@ -0,0 +1,45 @@
+// src/lib/geo.ts
+// 距離小工具（haversine）
+
+export type LatLon = { lat: number; lon: number };
+
+const EARTH_R = 6_371_000; // 公尺
+const rad = (d: number) => (d * Math.PI) / 180;
+
+/** 兩點間大圓距離（公尺） */
+export function haversineM(a: LatLon, b: LatLon): number {
+  const dLat = rad(b.lat - a.lat);
+  const dLon = rad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_R * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** 850 → "850 m"；1530 → "1.5 km" */
+export function formatMeters(m: number) {
+  if (m < 1000) return `${Math.round(m)} m`;
+  return `${(m / 1000).toFixed(m < 10_000 ? 1 : 0)} km`;
+}
+
+/** 點到線段 a–b 的最短距離（公尺；短距離用等距投影近似即可） */
+export function distanceToSegmentM(p: LatLon, a: LatLon, b: LatLon): number {
+  const kx = Math.cos(rad((a.lat + b.lat) / 2)) * rad(1) * EARTH_R; // 每度經度的公尺數
+  const ky = rad(1) * EARTH_R;                                        // 每度緯度的公尺數
+  const bx = (b.lon - a.lon) * kx;
+  const by = (b.lat - a.lat) * ky;
+  const px = (p.lon - a.lon) * kx;
+  const py = (p.lat - a.lat) * ky;
+  const len2 = bx * bx + by * by;
+  const t = len2 ? Math.max(0, Math.min(1, (px * bx + py * by) / len2)) : 0;
+  return Math.hypot(px - t * bx, py - t * by);
+}
+
+/** 點到折線（路線 / 軌跡）的最短距離（公尺）；只有一個點時就是點到點 */
+export function distanceToPathM(p: LatLon, path: LatLon[]): number {
+  if (path.length === 0) return Infinity;
+  if (path.length === 1) return haversineM(p, path[0]);
+  let best = Infinity;
+  for (let i = 1; i < path.length; i++) best = Math.min(best, distanceToSegmentM(p, path[i - 1], path[i]));
+  return best;
+}
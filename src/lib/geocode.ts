@@ -0,0 +1,159 @@
+// src/lib/geocode.ts
+// 地理編碼（Nominatim 相容 API）：地址 → 座標、座標 → 地址
+
+export type GeoPoint = { lat: number; lon: number };
+
+export type GeocodeResult = GeoPoint & {
+  label: string;                    // 顯示用地址
+};
+
+// 從 .env 讀取；未設定時用 OSM 公開 Nominatim
+const GEOCODER_URL = (
+  (import.meta.env.VITE_GEOCODER_URL as string | undefined) ||
+  "https://nominatim.openstreetmap.org"
+).replace(/\/+$/, "");
+
+// 限定搜尋範圍（預設澳洲）
+const COUNTRY = (import.meta.env.VITE_GEOCODER_COUNTRY as string | undefined) ?? "au";
+
+/** 解析 "lat, lng" 字串；不是座標就回 null */
+export function parseLatLng(text: string): GeoPoint | null {
+  const m = text.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+  if (!m) return null;
+  const lat = Number(m[1]);
+  const lon = Number(m[2]);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon };
+}
+
+/** 地址搜尋（可回多筆候選） */
+export async function searchPlaces(
+  query: string,
+  opts: { limit?: number; signal?: AbortSignal } = {}
+): Promise<GeocodeResult[]> {
+  const q = query.trim();
+  if (!q) return [];
+
+  const url = new URL(`${GEOCODER_URL}/search`);
+  url.searchParams.set("format", "jsonv2");
+  url.searchParams.set("q", q);
+  url.searchParams.set("limit", String(opts.limit ?? 5));
+  if (COUNTRY) url.searchParams.set("countrycodes", COUNTRY);
+
+  const res = await fetch(url.toString(), {
+    headers: { Accept: "application/json" },
+    signal: opts.signal,
+  });
+  if (!res.ok) throw new Error(`Geocoding failed (${res.status})`);
+
+  const data = await res.json().catch(() => []);
+  if (!Array.isArray(data)) return [];
+
+  return data
+    .map((d) => ({
+      lat: Number(d?.lat),
+      lon: Number(d?.lon),
+      label: String(d?.display_name || q),
+    }))
+    .filter((r) => Number.isFinite(r.lat) && Number.isFinite(r.lon));
+}
+
+/** 單筆地理編碼：座標字串直接用，否則取第一筆搜尋結果 */
+export async function geocode(query: string, signal?: AbortSignal): Promise<GeocodeResult | null> {
+  const direct = parseLatLng(query);
+  if (direct) return { ...direct, label: query.trim() };
+
+  const [first] = await searchPlaces(query, { limit: 1, signal });
+  return first ?? null;
+}
+
+export type ReverseResult = GeocodeResult & {
+  short?: string;                   // 精簡地址：「路名, 區」（表單欄位用）
+  lga?: string;                     // 地方政府區（Victoria 的 council，如 "City of Yarra"）
+};
+
+type NominatimAddress = Record<string, string | undefined>;
+
+// LGA 名稱樣式（Nominatim 依邊界層級放在 city / municipality / county 不一定）
+const LGA_NAME = /\b(City|Shire|Borough|Rural City|Municipality) of\b/i;
+
+/** 從 Nominatim addressdetails 找出 LGA；沒有像 LGA 的名稱就回 undefined（寧可留空，也不要把區名當 council） */
+function lgaOf(a: NominatimAddress): string | undefined {
+  const candidates = [a.municipality, a.city, a.county, a.town, a.city_district].filter(
+    (v): v is string => !!v?.trim()
+  );
+  return candidates.find((v) => LGA_NAME.test(v));
+}
+
+/** "12 Swanston Street, Carlton"：路名（有門牌就加）+ 區；都沒有回 undefined */
+function shortOf(a: NominatimAddress): string | undefined {
+  const road = a.road ?? a.cycleway ?? a.pedestrian ?? a.footway ?? a.path;
+  const street = road && a.house_number ? `${a.house_number} ${road}` : road;
+  const area = a.suburb ?? a.neighbourhood ?? a.town ?? a.village ?? a.city;
+  return [street, area].filter(Boolean).join(", ") || undefined;
+}
+
+// 同一點不重查（Nominatim 有每秒一次的限制）；約 10 m 內視為同一點。
+// 查詢中的也共用同一個 promise，失敗就移除讓下次重查；30 分鐘過期、最多留 200 點（最久沒用的先丟）
+const REVERSE_CACHE_MS = 30 * 60_000;
+const REVERSE_CACHE_MAX = 200;
+const reverseCache = new Map<string, { at: number; pending: Promise<ReverseResult | null> }>();
+
+/** 反向地理編碼：座標 → 地址 + LGA；查不到回 null。signal 只取消這次等待，不會中斷共用的查詢 */
+export function reverseGeocode(p: GeoPoint, signal?: AbortSignal): Promise<ReverseResult | null> {
+  const key = `${p.lat.toFixed(4)},${p.lon.toFixed(4)}`;
+  const hit = reverseCache.get(key);
+  reverseCache.delete(key); // 重新插入 → Map 的順序就是最近使用順序
+  let entry = hit && Date.now() - hit.at < REVERSE_CACHE_MS ? hit : undefined;
+  if (!entry) {
+    const created = { at: Date.now(), pending: fetchReverse(p) };
+    created.pending.catch(() => {
+      if (reverseCache.get(key) === created) reverseCache.delete(key);
+    });
+    entry = created;
+  }
+  reverseCache.set(key, entry);
+  if (reverseCache.size > REVERSE_CACHE_MAX) reverseCache.delete(reverseCache.keys().next().value!);
+
+  const { pending } = entry;
+  return signal ? abortable(pending, signal) : pending;
+}
+
+function abortable<T>(p: Promise<T>, signal: AbortSignal): Promise<T> {
+  const aborted = () => new DOMException("Aborted", "AbortError");
+  if (signal.aborted) return Promise.reject(aborted());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(aborted());
+    signal.addEventListener("abort", onAbort, { once: true });
+    p.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+async function fetchReverse(p: GeoPoint): Promise<ReverseResult | null> {
+  const url = new URL(`${GEOCODER_URL}/reverse`);
+  url.searchParams.set("format", "jsonv2");
+  url.searchParams.set("lat", String(p.lat));
+  url.searchParams.set("lon", String(p.lon));
+  url.searchParams.set("addressdetails", "1");
+  url.searchParams.set("zoom", "18");
+
+  const res = await fetch(url.toString(), { headers: { Accept: "application/json" } });
+  if (!res.ok) throw new Error(`Reverse geocoding failed (${res.status})`);
+
+  const data = await res.json().catch(() => null);
+  return data && !data.error && data.display_name
+    ? {
+        lat: p.lat,
+        lon: p.lon,
+        label: String(data.display_name),
+        short: shortOf((data.address ?? {}) as NominatimAddress),
+        lga: lgaOf((data.address ?? {}) as NominatimAddress),
+      }
+    : null;
+}
+
+/** 只要 LGA（送出回報用） */
+export async function resolveLga(p: GeoPoint, signal?: AbortSignal): Promise<string | undefined> {
+  return (await reverseGeocode(p, signal))?.lga;
+}
@@ -0,0 +1,113 @@
+// src/lib/hotspots.ts
+// 歷史事故熱點：把有座標的事故丟進固定大小的格子（grid binning），依 Incident_severity 加權，再和前一期比較趨勢
+
+import { getIncidentTypeLabel } from "./incidentTypes";
+import { haversineM, type LatLon } from "./geo";
+import type { IncidentSeverity } from "./incidents";
+import { percentChange, trendOf, type IncidentRecord, type Trend } from "./insights";
+
+export type Hotspot = {
+  id: string;                       // 格子 key（"row:col"）
+  lat: number;                      // 格內事故的加權中心
+  lon: number;
+  bounds: [[number, number], [number, number]]; // 格子範圍 [[南, 西], [北, 東]]
+  weight: number;                   // 嚴重度加權總分
+  count: number;
+  severe: number;                   // high / critical 筆數
+  intensity: number;                // weight / 最大格 weight（0–1，畫熱度用）
+  topType: string;                  // 最常見的類型（label）
+  lga?: string;                     // 格內最常見的 LGA
+  trend: Trend;
+  changePct: number | null;         // 加權總分與前一期比較
+};
+
+export type NearbyHotspot = Hotspot & { rank: number; distanceM: number };
+
+// 從 .env 讀取；格子邊長（公尺）
+const CELL_M = Number(import.meta.env.VITE_HOTSPOT_CELL_M) || 300;
+
+export const SEVERITY_WEIGHT: Record<IncidentSeverity, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+const M_PER_DEG_LAT = 111_320;
+
+type Located = IncidentRecord & { lat: number; lon: number };
+
+const located = (list: IncidentRecord[]) =>
+  list.filter((r): r is Located => r.lat != null && r.lon != null);
+
+const mostCommon = (values: (string | undefined)[]) => {
+  const m = new Map<string, number>();
+  for (const v of values) if (v) m.set(v, (m.get(v) ?? 0) + 1);
+  return [...m.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+/**
+ * 依格子彙整熱點（加權分數高的在前）；previous 是前一期的事故，用來算每格的趨勢。
+ * 經度方向的格寬用本期事故的平均緯度換算，讓格子在地面上接近正方形。
+ */
+export function computeHotspots(records: IncidentRecord[], previous: IncidentRecord[] = [], cellM = CELL_M): Hotspot[] {
+  const now = located(records);
+  if (now.length === 0) return [];
+
+  const refLat = now.reduce((s, r) => s + r.lat, 0) / now.length;
+  const dLat = cellM / M_PER_DEG_LAT;
+  const dLon = cellM / (M_PER_DEG_LAT * Math.cos((refLat * Math.PI) / 180));
+  const keyOf = (r: Located) => `${Math.floor(r.lat / dLat)}:${Math.floor(r.lon / dLon)}`;
+
+  const cells = new Map<string, Located[]>();
+  for (const r of now) {
+    const key = keyOf(r);
+    const list = cells.get(key);
+    if (list) list.push(r);
+    else cells.set(key, [r]);
+  }
+
+  const before = new Map<string, number>();
+  for (const r of located(previous)) {
+    const key = keyOf(r);
+    before.set(key, (before.get(key) ?? 0) + SEVERITY_WEIGHT[r.severity]);
+  }
+
+  const spots = [...cells.entries()].map(([id, list]) => {
+    const [row, col] = id.split(":").map(Number);
+    const weight = list.reduce((s, r) => s + SEVERITY_WEIGHT[r.severity], 0);
+    const changePct = percentChange(weight, before.get(id) ?? 0);
+    return {
+      id,
+      lat: list.reduce((s, r) => s + r.lat * SEVERITY_WEIGHT[r.severity], 0) / weight,
+      lon: list.reduce((s, r) => s + r.lon * SEVERITY_WEIGHT[r.severity], 0) / weight,
+      bounds: [[row * dLat, col * dLon], [(row + 1) * dLat, (col + 1) * dLon]] as Hotspot["bounds"],
+      weight,
+      count: list.length,
+      severe: list.filter((r) => r.severity === "high" || r.severity === "critical").length,
+      intensity: 0,
+      topType: getIncidentTypeLabel(mostCommon(list.map((r) => r.type))),
+      lga: mostCommon(list.map((r) => r.lga)),
+      trend: trendOf(changePct, list.length),
+      changePct,
+    };
+  });
+
+  const max = Math.max(...spots.map((s) => s.weight));
+  return spots
+    .map((s) => ({ ...s, intensity: s.weight / max }))
+    .sort((a, b) => b.weight - a.weight || b.count - a.count);
+}
+
+/** 附近（radiusM 內）的熱點排名：分數高的在前，同分比距離 */
+export function hotspotsNear(spots: Hotspot[], p: LatLon, radiusM = 5000, limit = 5): NearbyHotspot[] {
+  return spots
+    .map((s) => ({ ...s, distanceM: haversineM(p, s) }))
+    .filter((s) => s.distanceM <= radiusM)
+    .sort((a, b) => b.weight - a.weight || a.distanceM - b.distanceM)
+    .slice(0, limit)
+    .map((s, i) => ({ ...s, rank: i + 1 }));
+}
+
+/** 熱度色階：淡黃 → 橘 → 深紅 */
+export function heatColor(intensity: number) {
+  const t = Math.max(0, Math.min(1, intensity));
+  const hue = 50 - 50 * t;          // 50°（黃）→ 0°（紅）
+  const light = 60 - 20 * t;
+  return `hsl(${hue.toFixed(0)}, 90%, ${light.toFixed(0)}%)`;
+}
@@ -0,0 +1,70 @@
+// src/lib/idb.ts
+// 極簡 IndexedDB 包裝（Promise 版）：離線回報佇列、騎乘紀錄
+
+const DB_NAME = "cycsafe";
+const DB_VERSION = 2;
+
+export const STORES = {
+  reports: "reports",               // 待送出的事故回報（keyPath: id）
+  rides: "rides",                   // 騎乘紀錄（keyPath: id）；v2 新增
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORES.reports)) {
+        db.createObjectStore(STORES.reports, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.rides)) {
+        db.createObjectStore(STORES.rides, { keyPath: "id" });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // 開啟失敗就允許下次重試
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+async function run<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  fn: (s: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function idbGetAll<T>(store: StoreName) {
+  return run<T[]>(store, "readonly", (s) => s.getAll());
+}
+
+export function idbGet<T>(store: StoreName, key: IDBValidKey) {
+  return run<T | undefined>(store, "readonly", (s) => s.get(key));
+}
+
+export function idbPut<T>(store: StoreName, value: T) {
+  return run<IDBValidKey>(store, "readwrite", (s) => s.put(value));
+}
+
+export function idbDelete(store: StoreName, key: IDBValidKey) {
+  return run<undefined>(store, "readwrite", (s) => s.delete(key));
+}
@@ -0,0 +1,116 @@
+// src/lib/incidents.ts
+// 歷史事故（已結案 / 已驗證的回報）：依範圍查詢，用來疊在匯入的軌跡或路線上；
+// 事故列的欄位解析（createIncident 的欄位名 + 舊的小寫別名）也在這裡，insights 共用
+
+import type { LatLon } from "./geo";
+
+export const SEVERITIES = ["low", "medium", "high", "critical"] as const;
+export type IncidentSeverity = (typeof SEVERITIES)[number];
+
+/** 後端一列事故解析後的欄位；沒有或格式不對的就是 undefined，由呼叫端決定要丟掉或補預設 */
+export type IncidentRow = {
+  id: string;
+  timestamp?: string;               // Timestamp（ISO）
+  lat?: number;
+  lon?: number;
+  lga?: string;
+  type?: string;                    // Incident_type 代碼（原樣）
+  typeDesc?: string;                // Incident_type_desc
+  severity?: IncidentSeverity;
+  description?: string;
+  verification?: string;
+  pictures: string[];               // Picture（S3 key 或 URL）
+};
+
+export type HistoricalIncident = LatLon & {
+  id: string;
+  date?: string;                    // ISO（事故發生時間）
+  severity?: IncidentSeverity;
+  type?: string;                    // incidentType 代碼
+  description?: string;
+  lga?: string;                     // 地方政府區（例如 "Melbourne"）
+};
+
+type IncidentsPayload = {
+  ok?: boolean;
+  message?: string;
+  incidents?: Array<Record<string, unknown>>;
+};
+
+// 從 .env 讀取
+const INCIDENTS_URL = import.meta.env.VITE_INCIDENTS_URL as string | undefined;
+
+export const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+const num = (v: unknown) => {
+  const n = Number(v);
+  return v != null && v !== "" && Number.isFinite(n) ? n : undefined;
+};
+
+/** 解析一列事故（incidents / insights API 都是 createIncident 寫入的列） */
+export function parseIncidentRow(r: Record<string, unknown>, idx: number): IncidentRow {
+  const sev = String(r.Incident_severity ?? r.severity ?? "").toLowerCase();
+  const pics = r.Picture ?? r.photos;
+  return {
+    id: String(r.INCIDENT_NO ?? r.id ?? idx),
+    timestamp: str(r.Timestamp ?? r.timestamp ?? r.date),
+    lat: num(r.Latitude ?? r.lat),
+    lon: num(r.Longitude ?? r.lon),
+    lga: str(r.LGA ?? r.lga),
+    type: str(r.Incident_type ?? r.type),
+    typeDesc: str(r.Incident_type_desc),
+    severity: (SEVERITIES as readonly string[]).includes(sev) ? (sev as IncidentSeverity) : undefined,
+    description: str(r.Incident_description ?? r.description),
+    verification: str(r.Verification),
+    pictures: (Array.isArray(pics) ? pics : [pics]).map(str).filter((p): p is string => p !== undefined),
+  };
+}
+
+function toIncident(raw: Record<string, unknown>, idx: number): HistoricalIncident | null {
+  const r = parseIncidentRow(raw, idx);
+  if (r.lat == null || r.lon == null) return null;
+  return {
+    id: r.id,
+    lat: r.lat,
+    lon: r.lon,
+    date: r.timestamp,
+    severity: r.severity,
+    type: r.type,
+    description: r.description,
+    lga: r.lga,
+  };
+}
+
+/** 包住整條路徑的範圍（四邊各外擴 padM 公尺） */
+export function pathBounds(path: LatLon[], padM = 0) {
+  const lats = path.map((p) => p.lat);
+  const lons = path.map((p) => p.lon);
+  const dLat = padM / 111_320;
+  const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const dLon = padM / (111_320 * Math.max(0.01, Math.cos((midLat * Math.PI) / 180)));
+  return {
+    south: Math.min(...lats) - dLat,
+    west: Math.min(...lons) - dLon,
+    north: Math.max(...lats) + dLat,
+    east: Math.max(...lons) + dLon,
+  };
+}
+
+/** 取得範圍內的歷史事故 */
+export async function fetchIncidentsInBounds(
+  bounds: ReturnType<typeof pathBounds>,
+  signal?: AbortSignal
+): Promise<HistoricalIncident[]> {
+  if (!INCIDENTS_URL) throw new Error("Missing VITE_INCIDENTS_URL");
+
+  const url = new URL(INCIDENTS_URL);
+  url.searchParams.set("bbox", [bounds.west, bounds.south, bounds.east, bounds.north].map((n) => n.toFixed(5)).join(","));
+
+  const res = await fetch(url.toString(), { headers: { Accept: "application/json" }, signal });
+  const data: IncidentsPayload = await res.json().catch(() => ({ ok: false }));
+  if (!res.ok || data?.ok === false) {
+    throw new Error(data?.message || "Failed to load past incidents");
+  }
+
+  const list = Array.isArray(data.incidents) ? data.incidents : [];
+  return list.map(toIncident).filter((r): r is HistoricalIncident => r !== null);
+}
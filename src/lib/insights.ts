@@ -0,0 +1,270 @@
+// src/lib/insights.ts
+// DataInsights 的資料：insights API 回傳 createIncident 寫入的事故列，前端依時段 / LGA / 期間彙整
+
+import { photoUrl } from "./api";
+import { parseIncidentRow, str, type IncidentSeverity } from "./incidents";
+import { INCIDENT_TYPES } from "./incidentTypes";
+import { bucketAt, RISK_BY_TIME, type TimeBucket } from "./timeOfDay";
+
+export type IncidentRecord = {
+  id: string;
+  at: number;                       // epoch ms（Timestamp）
+  lat?: number;
+  lon?: number;
+  lga?: string;
+  type: string;                     // Incident_type 代碼
+  typeDesc?: string;                // Incident_type_desc
+  severity: IncidentSeverity;
+  description?: string;             // Incident_description
+  verification?: string;            // Verification
+  photos: string[];                 // Picture（已轉成 URL）
+};
+
+export type DateRange = { from: number; to: number }; // epoch ms，含頭含尾
+
+export type InsightsData = {
+  records: IncidentRecord[];        // 選定期間
+  previous: IncidentRecord[];       // 前一個同長度期間（算趨勢用）
+  range: DateRange;
+  source: string;
+};
+
+export type Trend = "up" | "down" | "flat";
+
+export type Headline = {
+  peakShare: number;                // 尖峰時段（8–10 AM、5–7 PM）占比 %
+  weekendLift: number;              // 週末每日事故數比平日多幾 %
+  severeShare: number;              // high / critical 占比 %
+  changePct: number | null;         // 總數與前一期比較 %
+};
+
+type InsightsPayload = {
+  ok?: boolean;
+  message?: string;
+  source?: string;
+  incidents?: Array<Record<string, unknown>>;
+};
+
+// 從 .env 讀取
+const INSIGHTS_URL = import.meta.env.VITE_INSIGHTS_URL as string | undefined;
+
+const DEFAULT_SOURCE = "CycSafe incident reports";
+const DAY_MS = 24 * 3600_000;
+const TREND_PCT = 15;               // 變化超過 ±15% 才算上升 / 下降
+export const UNKNOWN_AREA = "Unknown area";
+
+/** 解析一列事故；沒有時間就丟掉（無法彙整） */
+function toRecord(raw: Record<string, unknown>, idx: number): IncidentRecord | null {
+  const { timestamp, type, severity, pictures, ...r } = parseIncidentRow(raw, idx);
+  const at = Date.parse(timestamp ?? "");
+  if (!Number.isFinite(at)) return null;
+  return {
+    ...r,
+    at,
+    type: type?.toUpperCase() ?? "OTHER",
+    severity: severity ?? "medium",
+    photos: pictures.map(photoUrl),
+  };
+}
+
+/** 預設期間：最近 90 天 */
+export function defaultRange(now = Date.now()): DateRange {
+  return { from: startOfDay(now - 89 * DAY_MS), to: now };
+}
+
+export function startOfDay(t: number) {
+  const d = new Date(t);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+export const isoDay = (t: number) => {
+  const d = new Date(t);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+
+/** 期間內與前一期的事故列（一次查兩段，趨勢要用） */
+export async function fetchInsights(range: DateRange, signal?: AbortSignal): Promise<InsightsData> {
+  if (!INSIGHTS_URL) throw new Error("Missing VITE_INSIGHTS_URL");
+
+  const span = range.to - range.from;
+  const url = new URL(INSIGHTS_URL);
+  url.searchParams.set("from", isoDay(range.from - span));
+  url.searchParams.set("to", isoDay(range.to));
+
+  const res = await fetch(url.toString(), { headers: { Accept: "application/json" }, signal });
+  const data: InsightsPayload = await res.json().catch(() => ({ ok: false }));
+  if (!res.ok || data?.ok === false) {
+    throw new Error(data?.message || "Failed to load insights");
+  }
+
+  const all = (Array.isArray(data.incidents) ? data.incidents : [])
+    .map(toRecord)
+    .filter((r): r is IncidentRecord => r !== null);
+  const end = startOfDay(range.to) + DAY_MS; // to 當天整天都算
+  return {
+    records: all.filter((r) => r.at >= range.from && r.at < end),
+    previous: all.filter((r) => r.at >= range.from - span && r.at < range.from),
+    range,
+    source: str(data.source) ?? DEFAULT_SOURCE,
+  };
+}
+
+/** 可列印摘要的連結（/insights/summary?from=&to=&lga=…，lga 可重複） */
+export function summaryLink(range: DateRange, areas: string[] = []) {
+  const q = new URLSearchParams({ from: isoDay(range.from), to: isoDay(range.to) });
+  for (const a of areas) q.append("lga", a);
+  return `/insights/summary?${q.toString()}`;
+}
+
+/** 從網址讀回期間；格式不對就用預設期間 */
+export function readSummaryParams(params: URLSearchParams): { range: DateRange; areas: string[] } {
+  const day = (v: string | null) => {
+    const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(v ?? "");
+    return m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])).getTime() : NaN;
+  };
+  const from = day(params.get("from"));
+  const to = day(params.get("to"));
+  const range =
+    Number.isFinite(from) && Number.isFinite(to) && from <= to
+      ? { from, to: Math.min(Date.now(), to + DAY_MS - 1) } // to 當天整天
+      : defaultRange();
+  return { range, areas: params.getAll("lga").filter(Boolean) };
+}
+
+// ===== 彙整 =====
+
+const days = (range: DateRange) => Math.max(1, Math.round((startOfDay(range.to) + DAY_MS - range.from) / DAY_MS));
+
+const pct = (part: number, whole: number) => (whole ? Math.round((part / whole) * 100) : 0);
+
+/** 與前一期比較的變化 %；前一期沒有資料就是 null */
+export function percentChange(now: number, before: number): number | null {
+  return before ? Math.round(((now - before) / before) * 100) : null;
+}
+
+export function trendOf(changePct: number | null, count: number): Trend {
+  if (changePct == null) return count > 0 ? "up" : "flat"; // 前一期沒有、這期有 → 新出現
+  return changePct > TREND_PCT ? "up" : changePct < -TREND_PCT ? "down" : "flat";
+}
+
+/** 各時段每月事故數；等級依最多的時段比例 */
+export function riskByTime(data: InsightsData): TimeBucket[] {
+  const perMonth = 30 / days(data.range);
+  const counts = RISK_BY_TIME.map((b) => ({
+    ...b,
+    incidents: Math.round(
+      data.records.filter((r) => bucketAt(new Date(r.at).getHours()) === b).length * perMonth
+    ),
+  }));
+  const max = Math.max(1, ...counts.map((c) => c.incidents));
+  return counts.map((c) => ({
+    ...c,
+    level: c.incidents / max >= 0.66 ? "High" : c.incidents / max >= 0.33 ? "Medium" : "Low",
+  }));
+}
+
+/** 上方四個數字 */
+export function headline(data: InsightsData): Headline {
+  const { records } = data;
+  const peak = records.filter((r) => {
+    const h = new Date(r.at).getHours();
+    return (h >= 8 && h < 10) || (h >= 17 && h < 19);
+  }).length;
+
+  // 週末 / 平日各自的「每日」平均，避免天數不同造成偏差
+  let weekendDays = 0;
+  for (let t = data.range.from; t <= data.range.to; t += DAY_MS) {
+    const wd = new Date(t).getDay();
+    if (wd === 0 || wd === 6) weekendDays++;
+  }
+  const weekdayDays = Math.max(1, days(data.range) - weekendDays);
+  const weekend = records.filter((r) => [0, 6].includes(new Date(r.at).getDay())).length;
+  const weekendRate = weekendDays ? weekend / weekendDays : 0;
+  const weekdayRate = (records.length - weekend) / weekdayDays;
+
+  return {
+    peakShare: pct(peak, records.length),
+    weekendLift: weekdayRate ? Math.round((weekendRate / weekdayRate - 1) * 100) : 0,
+    severeShare: pct(records.filter((r) => r.severity === "high" || r.severity === "critical").length, records.length),
+    changePct: percentChange(records.length, data.previous.length),
+  };
+}
+
+/** "1 Jul 2025 – 30 Sep 2025" */
+export function formatRange(range: DateRange) {
+  const f = (t: number) => new Date(t).toLocaleDateString([], { day: "numeric", month: "short", year: "numeric" });
+  return `${f(range.from)} – ${f(range.to)}`;
+}
+
+// ===== 篩選 =====
+
+/** 期間內出現過的 LGA（事故多的在前） */
+export function areasOf(data: InsightsData): { area: string; count: number }[] {
+  const m = new Map<string, number>();
+  for (const r of data.records) m.set(r.lga ?? UNKNOWN_AREA, (m.get(r.lga ?? UNKNOWN_AREA) ?? 0) + 1);
+  return [...m.entries()].map(([area, count]) => ({ area, count })).sort((a, b) => b.count - a.count);
+}
+
+/** 只留選定的 LGA（空陣列 = 全部）；本期與前一期一起篩，趨勢才比得起來 */
+export function filterByAreas(data: InsightsData, areas: string[]): InsightsData {
+  if (areas.length === 0) return data;
+  const keep = new Set(areas);
+  const pick = (list: IncidentRecord[]) => list.filter((r) => keep.has(r.lga ?? UNKNOWN_AREA));
+  return { ...data, records: pick(data.records), previous: pick(data.previous) };
+}
+
+// ===== 圖表 =====
+
+export const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/** 星期 × 小時的事故數（[0] = 週一） */
+export function hourDayMatrix(records: IncidentRecord[]): number[][] {
+  const m = WEEKDAYS.map(() => Array<number>(24).fill(0));
+  for (const r of records) {
+    const d = new Date(r.at);
+    m[(d.getDay() + 6) % 7][d.getHours()]++;
+  }
+  return m;
+}
+
+/** 各事故類型的筆數（顏色沿用 INCIDENT_TYPES） */
+export function typeBreakdown(records: IncidentRecord[]) {
+  const counts = new Map<string, number>();
+  for (const r of records) {
+    const code = INCIDENT_TYPES.some((t) => t.code === r.type) ? r.type : "OTHER";
+    counts.set(code, (counts.get(code) ?? 0) + 1);
+  }
+  return INCIDENT_TYPES
+    .map((t) => ({ code: t.code, label: t.label, color: t.color, count: counts.get(t.code) ?? 0 }))
+    .filter((t) => t.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+/** 每月事故數（期間內每個月都有一筆，沒有事故就是 0） */
+export function monthlyTrend(records: IncidentRecord[], range: DateRange) {
+  const key = (t: number) => {
+    const d = new Date(t);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+  };
+  const counts = new Map<string, number>();
+  for (const r of records) counts.set(key(r.at), (counts.get(key(r.at)) ?? 0) + 1);
+
+  const out: { month: string; label: string; count: number }[] = [];
+  const d = new Date(range.from);
+  d.setDate(1);
+  d.setHours(0, 0, 0, 0);
+  while (d.getTime() <= range.to) {
+    const k = key(d.getTime());
+    out.push({ month: k, label: d.toLocaleDateString([], { month: "short", year: "2-digit" }), count: counts.get(k) ?? 0 });
+    d.setMonth(d.getMonth() + 1);
+  }
+  return out;
+}
+
+/** 各嚴重度筆數 */
+export function severityDistribution(records: IncidentRecord[]): Record<IncidentSeverity, number> {
+  const out = { low: 0, medium: 0, high: 0, critical: 0 };
+  for (const r of records) out[r.severity]++;
+  return out;
+}
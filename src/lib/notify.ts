@@ -1,29 +1,42 @@
 // src/lib/notify.ts
-// 本地通知中心：處理風險→(震動/通知/紅點)；完全前端，無使用者輸入
+// 本地通知中心：處理風險→(震動/通知/紅點)、騎乘中接近告警的逐級警示；完全前端，無使用者輸入
+
+import { getSettings } from "./settings";
+import { titleOf, type AlertLite } from "./alerts";
+import { emit, load, save } from "./bus";
+import { formatMeters } from "./geo";
 
 export type Severity = "none" | "medium" | "high";
 
-const BELL_KEY = "cs.bellCount";
-const COOLDOWN_KEY = "cs.notify.cooldownUntil";
-const COOLDOWN_MS = 90_000; // 90 秒冷卻，避免頻繁提醒
+/** 騎乘中接近告警的警示等級：1 = 進入警示距離、2 = 一半、3 = 就在前面 */
+export type ProximityStage = 1 | 2 | 3;
+
+export type ProximityWarning = {
+  alert: AlertLite;
+  distanceM: number;
+  stage: ProximityStage;
+  at: number;                       // epoch ms
+};
 
 function now() { return Date.now(); }
 
 function inCooldown(): boolean {
-  const until = Number(localStorage.getItem(COOLDOWN_KEY) || "0");
-  return now() < until;
+  return now() < getCooldownUntil();
 }
 
+// 冷卻秒數由設定頁調整（預設 90 秒），避免頻繁提醒
 function startCooldown() {
-  localStorage.setItem(COOLDOWN_KEY, String(now() + COOLDOWN_MS));
+  const until = now() + getSettings().notifyCooldownS * 1000;
+  save("notify.cooldownUntil", until);
+  // 讓 service worker 的背景推播也遵守同一個冷卻
+  navigator.serviceWorker?.controller?.postMessage({ type: "cs:config", cooldownUntil: until });
 }
 
 function bumpBell() {
-  const n = Number(localStorage.getItem(BELL_KEY) || "0") || 0;
-  const next = n + 1;
-  localStorage.setItem(BELL_KEY, String(next));
+  const next = load("bellCount", 0) + 1;
+  save("bellCount", next);
   // 廣播給 Header
-  window.dispatchEvent(new CustomEvent("cs:bell", { detail: { count: next } }));
+  emit("bell", { count: next });
 }
 
 function vibrate(sev: Severity) {
@@ -33,19 +46,112 @@ function vibrate(sev: Severity) {
   else if (sev === "medium") navigator.vibrate([60, 30, 60]);
 }
 
-function sysNotify(title: string, body: string) {
-  // 不主動要權限；只有在已授權時顯示
-  if (typeof Notification !== "undefined" && Notification.permission === "granted") {
-    try { new Notification(title, { body }); } catch {}
+type NotifyOptions = {
+  title?: string;
+  tag?: string;                     // 同 tag 的通知會互相取代
+  url?: string;                     // 點擊後開啟的頁面
+};
+
+function sysNotify(body: string, { title = "CycSafe Alert", tag, url }: NotifyOptions = {}) {
+  // 不主動要權限（由設定頁 / GeoPrompt 要）；只有在已授權時顯示
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+
+  // 有 service worker 就用 showNotification（Android 不允許 new Notification，且點擊可深連結）
+  if (navigator.serviceWorker?.controller) {
+    navigator.serviceWorker.ready
+      .then((reg) => reg.showNotification(title, { body, tag, data: { url } }))
+      .catch(() => undefined);
+    return;
   }
+  try { new Notification(title, { body, tag }); } catch { /* ignore */ }
 }
 
-export function triggerRiskAlert(sev: Severity, message: string) {
+export function triggerRiskAlert(sev: Severity, message: string, opts?: NotifyOptions) {
   if (sev === "none") return;
   if (inCooldown()) return;
 
   vibrate(sev);
   bumpBell();
-  sysNotify("CycSafe Alert", message);
+  sysNotify(message, opts);
   startCooldown();
+}
+
+/** 告警 severity → 通知嚴重度（low 不打擾）；推播與本地共用 */
+export function alertSeverity(a: Pick<AlertLite, "severity">): Severity {
+  if (a.severity === "high") return "high";
+  if (a.severity === "medium") return "medium";
+  return "none";
+}
+
+/** 單筆告警（例如 Web Push 送來的）走同一套冷卻 / 嚴重度規則 */
+export function triggerAlertNotification(a: AlertLite) {
+  const where = a.address ? ` near ${a.address}` : " near you";
+  triggerRiskAlert(alertSeverity(a), a.description || `${titleOf(a)} reported${where}.`, {
+    title: titleOf(a),
+    tag: `cs-alert-${a.clusterId}`,
+    url: `/alerts?alert=${encodeURIComponent(a.clusterId)}`,
+  });
+}
+
+// ===== 騎乘模式：接近告警 =====
+
+// 越近震動越長、嗶聲越多
+const PROXIMITY_VIBRATION: Record<ProximityStage, number[]> = {
+  1: [60],
+  2: [80, 40, 80],
+  3: [120, 50, 120, 50, 250],
+};
+
+let audio: AudioContext | null = null;
+
+/** 必須在使用者點擊當下呼叫（瀏覽器限制），之後才能在背景發聲 */
+export function unlockSound() {
+  try {
+    audio ??= new AudioContext();
+    void audio.resume();
+  } catch {
+    audio = null;
+  }
+}
+
+function beep(stage: ProximityStage) {
+  if (!audio || !getSettings().rideSound) return;
+  const t0 = audio.currentTime;
+  for (let i = 0; i < stage; i++) {
+    const osc = audio.createOscillator();
+    const gain = audio.createGain();
+    osc.frequency.value = 660 + stage * 220;
+    gain.gain.setValueAtTime(0.25, t0 + i * 0.25);
+    gain.gain.exponentialRampToValueAtTime(0.001, t0 + i * 0.25 + 0.18);
+    osc.connect(gain).connect(audio.destination);
+    osc.start(t0 + i * 0.25);
+    osc.stop(t0 + i * 0.25 + 0.2);
+  }
+}
+
+/**
+ * 騎乘中接近告警：震動 + 嗶聲 + 畫面警示（ride:warning 事件）。
+ * 不走共用冷卻：同一個告警只會在等級上升時觸發（由 rideService 控制）
+ */
+export function triggerProximityWarning(a: AlertLite, distanceM: number, stage: ProximityStage) {
+  if ("vibrate" in navigator) navigator.vibrate(PROXIMITY_VIBRATION[stage]);
+  beep(stage);
+  emit("ride:warning", { alert: a, distanceM, stage, at: now() });
+
+  // 螢幕沒在看（或已經很近）才用系統通知
+  if (stage === 3 || document.visibilityState !== "visible") {
+    sysNotify(`${titleOf(a)} ${formatMeters(distanceM)} ahead.`, {
+      title: "Hazard ahead",
+      tag: `cs-ride-${a.clusterId}`,
+      url: "/ride",
+    });
+  }
+}
+
+/** 冷卻截止時間（service worker 在背景通知後會同步回來） */
+export function getCooldownUntil() {
+  return load("notify.cooldownUntil", 0);
+}
+export function setCooldownUntil(until: number) {
+  if (until > getCooldownUntil()) save("notify.cooldownUntil", until);
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+// src/lib/offline.ts
+// 離線支援：連線狀態 hook + 最後一次的風險結果（冷啟動沒網路時顯示，並標示資料時間）
+
+import { useEffect, useState } from "react";
+import { load, save } from "./bus";
+import type { RiskText } from "./weatherAlerts";
+
+export type LastRisk = {
+  risk: number;                     // 0–100
+  riskText: RiskText;
+  address: string;
+  lat: number;
+  lon: number;
+  at: number;                       // epoch ms
+};
+
+/** navigator.onLine + online/offline 事件 */
+export function useOnline(): boolean {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const on = () => setOnline(true);
+    const off = () => setOnline(false);
+    window.addEventListener("online", on);
+    window.addEventListener("offline", off);
+    return () => {
+      window.removeEventListener("online", on);
+      window.removeEventListener("offline", off);
+    };
+  }, []);
+  return online;
+}
+
+export function saveLastRisk(r: Omit<LastRisk, "at">) {
+  save("risk.last", { ...r, at: Date.now() });
+}
+
+export function readLastRisk(): LastRisk | null {
+  return load("risk.last") ?? null;
+}
+
+/** alertsService 最後一次成功更新清單的時間（epoch ms；沒有就 0） */
+export function alertsUpdatedAt(): number {
+  return load("alerts.updatedAt", 0);
+}
@@ -0,0 +1,76 @@
+// src/lib/placeRisk.ts
+// 常用地點 / 通勤取樣點的風險：每個點查一次風險 Lambda，結果在一個輪詢間隔內共用
+
+import { useEffect, useState } from "react";
+import type { LatLon } from "./geo";
+import { fetchRiskAt, type RiskResponse } from "./risk";
+import { getSettings } from "./settings";
+
+export type PlaceRisk = {
+  data?: RiskResponse;
+  error?: string;
+  loading: boolean;
+};
+
+type Entry = { at: number; promise: Promise<RiskResponse> };
+
+const cache = new Map<string, Entry>();
+
+/** 座標 → 快取 key（約 1 m 精度） */
+export const placeKey = (p: LatLon) => `${p.lat.toFixed(5)},${p.lon.toFixed(5)}`;
+
+/** 單點風險（一個輪詢間隔內共用同一次查詢） */
+export function getPlaceRisk(p: LatLon): Promise<RiskResponse> {
+  const key = placeKey(p);
+  const hit = cache.get(key);
+  if (hit && Date.now() - hit.at < getSettings().pollIntervalS * 1000) return hit.promise;
+
+  const promise = fetchRiskAt(p.lat, p.lon);
+  cache.set(key, { at: Date.now(), promise });
+  promise.catch(() => cache.delete(key)); // 失敗不要快取
+  return promise;
+}
+
+/** React hook：多個點的風險（key 為 placeKey） */
+export function usePlaceRisks(points: LatLon[]): Record<string, PlaceRisk> {
+  const [risks, setRisks] = useState<Record<string, PlaceRisk>>({});
+  const keys = [...new Set(points.map(placeKey))].sort().join("|");
+
+  useEffect(() => {
+    let alive = true;
+    const targets = keys ? keys.split("|") : [];
+
+    const run = () => {
+      for (const key of targets) {
+        const [lat, lon] = key.split(",").map(Number);
+        setRisks((prev) => ({ ...prev, [key]: { ...prev[key], loading: true } }));
+        getPlaceRisk({ lat, lon })
+          .then((data) => {
+            if (alive) setRisks((prev) => ({ ...prev, [key]: { data, loading: false } }));
+          })
+          .catch((e) => {
+            if (!alive) return;
+            const error = (e as Error)?.message || "Failed to load risk";
+            setRisks((prev) => ({ ...prev, [key]: { ...prev[key], error, loading: false } }));
+          });
+      }
+    };
+
+    run();
+    const timer = window.setInterval(run, getSettings().pollIntervalS * 1000);
+    return () => {
+      alive = false;
+      window.clearInterval(timer);
+    };
+  }, [keys]);
+
+  return risks;
+}
+
+/** 多個點中最高的風險分數（都還沒結果就回 undefined） */
+export function maxRisk(risks: Record<string, PlaceRisk>, points: LatLon[]): number | undefined {
+  const scores = points
+    .map((p) => risks[placeKey(p)]?.data?.risk)
+    .filter((r): r is number => typeof r === "number");
+  return scores.length ? Math.max(...scores) : undefined;
+}
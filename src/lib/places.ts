@@ -0,0 +1,60 @@
+// src/lib/places.ts
+// 常用地點（Home / Work / 自訂）：存在 bus store 的 places 欄位，GeoPrompt 可直接選用
+
+import { useEffect, useState } from "react";
+import { emit, load, on, save } from "./bus";
+import type { LatLon } from "./geo";
+
+export type SavedPlace = LatLon & {
+  name: string;                     // 顯示名稱（Home / Work / 自訂），不分大小寫唯一
+  label: string;                    // 地址
+};
+
+/** GeoPrompt 的「存成…」快捷按鈕 */
+export const PLACE_PRESETS = ["Home", "Work"];
+
+const MAX_PLACES = 10;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** 驗證存起來的清單；不合法的項目直接略過 */
+export function parsePlaces(raw: unknown[]): SavedPlace[] {
+  return raw.flatMap((r) => {
+    if (typeof r !== "object" || r === null) return [];
+    const p = r as Record<string, unknown>;
+    const lat = Number(p.lat);
+    const lon = Number(p.lon);
+    const name = typeof p.name === "string" ? p.name.trim() : "";
+    if (!name || !Number.isFinite(lat) || !Number.isFinite(lon)) return [];
+    if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return [];
+    return [{ name, lat, lon, label: typeof p.label === "string" ? p.label : `${lat.toFixed(5)}, ${lon.toFixed(5)}` }];
+  });
+}
+
+export function getPlaces(): SavedPlace[] {
+  return load("places", []);
+}
+
+/** 新增或覆蓋同名地點 */
+export function savePlace(place: SavedPlace): SavedPlace[] {
+  const rest = getPlaces().filter((p) => !sameName(p.name, place.name));
+  const next = [...rest, { ...place, name: place.name.trim() }].slice(-MAX_PLACES);
+  return commit(next);
+}
+
+export function removePlace(name: string): SavedPlace[] {
+  return commit(getPlaces().filter((p) => !sameName(p.name, name)));
+}
+
+/** React hook：常用地點（含其他分頁的變更） */
+export function usePlaces(): SavedPlace[] {
+  const [places, setPlaces] = useState<SavedPlace[]>(getPlaces);
+  useEffect(() => on("places", setPlaces), []);
+  return places;
+}
+
+function commit(next: SavedPlace[]) {
+  save("places", next);
+  emit("places", next);
+  return next;
+}
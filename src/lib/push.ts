@@ -0,0 +1,158 @@
+// src/lib/push.ts
+// Web Push 訂閱：要求通知權限 → pushManager.subscribe → 訂閱資訊送到後端（VITE_PUSH_SUBSCRIBE_URL）
+
+import { useCallback, useEffect, useState } from "react";
+import { emit, load, on } from "./bus";
+import { getSettings } from "./settings";
+
+export type PushStatus = "unsupported" | "denied" | "off" | "on";
+
+// 從 .env 讀取
+const SUBSCRIBE_URL = import.meta.env.VITE_PUSH_SUBSCRIBE_URL as string | undefined;
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_PUSH_PUBLIC_KEY as string | undefined;
+
+export function pushSupported() {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    typeof Notification !== "undefined"
+  );
+}
+
+async function currentSubscription(): Promise<PushSubscription | null> {
+  if (!pushSupported()) return null;
+  const reg = await navigator.serviceWorker.getRegistration();
+  return (await reg?.pushManager.getSubscription()) ?? null;
+}
+
+export async function getPushStatus(): Promise<PushStatus> {
+  if (!pushSupported()) return "unsupported";
+  if (Notification.permission === "denied") return "denied";
+  try {
+    return (await currentSubscription()) ? "on" : "off";
+  } catch {
+    return "off";
+  }
+}
+
+/** 使用者明確按下「開啟通知」時呼叫；失敗會丟錯給 UI 顯示 */
+export async function enablePush(): Promise<PushStatus> {
+  if (!pushSupported()) throw new Error("Push notifications are not supported on this browser.");
+  if (!VAPID_PUBLIC_KEY) throw new Error("Missing VITE_PUSH_PUBLIC_KEY");
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    broadcast();
+    throw new Error(
+      permission === "denied"
+        ? "Notifications are blocked. You can enable them in your browser settings."
+        : "Notification permission was not granted."
+    );
+  }
+
+  const reg = await navigator.serviceWorker.ready;
+  const sub =
+    (await reg.pushManager.getSubscription()) ??
+    (await reg.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToBytes(VAPID_PUBLIC_KEY),
+    }));
+
+  await syncPushSubscription(sub);
+  broadcast();
+  return "on";
+}
+
+export async function disablePush(): Promise<PushStatus> {
+  const sub = await currentSubscription();
+  if (sub) {
+    // 後端刪除失敗也照樣在本機取消訂閱（推播服務會回 410，後端自然清掉）
+    if (SUBSCRIBE_URL) {
+      await fetch(SUBSCRIBE_URL, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ endpoint: sub.endpoint }),
+      }).catch((e) => console.warn("push unsubscribe failed", e));
+    }
+    await sub.unsubscribe();
+  }
+  broadcast();
+  return getPushStatus();
+}
+
+/** 把訂閱 + 目前位置 / 半徑送到後端，讓後端只推附近的告警 */
+export async function syncPushSubscription(sub?: PushSubscription | null) {
+  if (!SUBSCRIBE_URL) throw new Error("Missing VITE_PUSH_SUBSCRIBE_URL");
+  const s = sub === undefined ? await currentSubscription() : sub;
+  if (!s) return;
+
+  const res = await fetch(SUBSCRIBE_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      subscription: s.toJSON(),
+      coords: load("coords") ?? null,
+      radiusM: getSettings().alertRadiusM,
+    }),
+  });
+  if (!res.ok) throw new Error(`Subscribe failed (${res.status})`);
+}
+
+/** React hook：目前推播狀態 + 開關 */
+export function usePushStatus() {
+  const [status, setStatus] = useState<PushStatus>("off");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let alive = true;
+    const refresh = () => {
+      getPushStatus().then((s) => {
+        if (alive) setStatus(s);
+      });
+    };
+    refresh();
+    const off = on("push:status", refresh);
+    return () => {
+      alive = false;
+      off();
+    };
+  }, []);
+
+  const run = useCallback(async (fn: () => Promise<PushStatus>) => {
+    setBusy(true);
+    setError("");
+    try {
+      setStatus(await fn());
+    } catch (e) {
+      setError((e as Error).message || "Failed to update notifications");
+      setStatus(await getPushStatus());
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  return {
+    status,
+    busy,
+    error,
+    enable: () => run(enablePush),
+    disable: () => run(disablePush),
+  };
+}
+
+// ===== 內部 =====
+
+function broadcast() {
+  emit("push:status");
+}
+
+/** VAPID 公鑰（base64url）→ bytes */
+function base64UrlToBytes(b64: string): Uint8Array<ArrayBuffer> {
+  const pad = "=".repeat((4 - (b64.length % 4)) % 4);
+  const raw = atob((b64 + pad).replace(/-/g, "+").replace(/_/g, "/"));
+  const out = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) out[i] = raw.charCodeAt(i);
+  return out;
+}
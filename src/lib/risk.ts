@@ -0,0 +1,86 @@
+// src/lib/risk.ts
+// 風險 Lambda（VITE_LAMBDA_URL）：回應型別 + 執行期驗證 + 依使用者門檻換算等級
+
+import type { Severity } from "./notify";
+import { getSettings } from "./settings";
+import type { RiskText, RiskWeather } from "./weatherAlerts";
+
+export type RiskResponse = {
+  ok: boolean;
+  risk: number;                     // 0–100
+  riskText: RiskText;
+  address?: string;
+  lat?: number;
+  lon?: number;
+  weather?: RiskWeather;
+  atmosphere?: string;
+};
+
+export type RiskLabel = "LOW" | "MEDIUM" | "HIGH";
+
+export const RISK_API =
+  import.meta.env.VITE_LAMBDA_URL ??
+  "https://dbetjhlyj7smwrgcptcozm6amq0ovept.lambda-url.ap-southeast-2.on.aws/";
+
+const RISK_TEXTS: RiskText[] = ["Low Risk", "Medium Risk", "High Risk"];
+
+const numOrUndef = (v: unknown) => {
+  const n = Number(v);
+  return v != null && v !== "" && Number.isFinite(n) ? n : undefined;
+};
+
+/** 驗證 Lambda 回應；ok=false 或沒有 risk 數字就丟錯 */
+export function parseRiskResponse(raw: unknown): RiskResponse {
+  if (typeof raw !== "object" || raw === null) throw new Error("Invalid risk payload");
+  const r = raw as Record<string, unknown>;
+  if (r.ok === false) throw new Error(String(r.error || r.message || "Risk lambda returned ok=false"));
+
+  const risk = numOrUndef(r.risk);
+  if (risk == null) throw new Error("Risk payload has no risk score");
+
+  const w = typeof r.weather === "object" && r.weather !== null ? (r.weather as Record<string, unknown>) : undefined;
+  return {
+    ok: true,
+    risk: Math.max(0, Math.min(100, Math.round(risk))),
+    riskText: RISK_TEXTS.includes(r.riskText as RiskText) ? (r.riskText as RiskText) : "Low Risk",
+    address: typeof r.address === "string" && r.address.trim() ? r.address : undefined,
+    lat: numOrUndef(r.lat),
+    lon: numOrUndef(r.lon),
+    weather: w
+      ? {
+          windSpeed: numOrUndef(w.windSpeed),
+          precipitation: numOrUndef(w.precipitation),
+          temperature: numOrUndef(w.temperature),
+        }
+      : undefined,
+    atmosphere: typeof r.atmosphere === "string" ? r.atmosphere : undefined,
+  };
+}
+
+/** 查詢單點風險 */
+export async function fetchRiskAt(lat: number, lon: number, signal?: AbortSignal): Promise<RiskResponse> {
+  const url = new URL(RISK_API);
+  url.searchParams.set("lat", String(lat));
+  url.searchParams.set("lon", String(lon));
+  const res = await fetch(url.toString(), {
+    cache: "no-store",
+    headers: { Accept: "application/json" },
+    signal,
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return parseRiskResponse(await res.json());
+}
+
+// ===== 門檻（設定頁可調）=====
+type Thresholds = { mediumRiskThreshold: number; highRiskThreshold: number };
+
+/** 數值 → 等級字樣（LOW/MEDIUM/HIGH） */
+export function riskLabel(level: number, t: Thresholds = getSettings()): RiskLabel {
+  return level >= t.highRiskThreshold ? "HIGH" : level >= t.mediumRiskThreshold ? "MEDIUM" : "LOW";
+}
+
+/** 數值 → 通知嚴重度 */
+export function riskSeverity(level: number, t: Thresholds = getSettings()): Severity {
+  const label = riskLabel(level, t);
+  return label === "HIGH" ? "high" : label === "MEDIUM" ? "medium" : "none";
+}
@@ -0,0 +1,106 @@
+// src/lib/routeRisk.ts
+// 路線風險分數：沿線（緩衝區內）的目前告警依 severity / 回報數加權，再加上風險 Lambda 的天氣 → 0–100
+
+import { alertPosition, isWeather, titleOf, type AlertLite, type AlertSeverity } from "./alerts";
+import { distanceToPathM, formatMeters, type LatLon } from "./geo";
+import { riskLabel, type RiskLabel } from "./risk";
+import type { Level } from "./routes";
+import { formatSpeed, getSettings } from "./settings";
+import type { RiskWeather } from "./weatherAlerts";
+
+export const ROUTE_BUFFER_M = 150;  // 離路線多近的告警算「在路上」
+
+// 單一告警的基本分數；同一個 cluster 回報越多越可信
+const SEVERITY_POINTS: Record<AlertSeverity, number> = { low: 8, medium: 15, high: 25 };
+const REPORT_BONUS = 0.15;          // 每多一筆回報 +15%
+const MAX_REPORT_BONUS = 4;         // 最多算到 +60%
+
+// 天氣門檻（.env 可調，與後端相同預設）
+const WIND_HIGH_MS = Number(import.meta.env.VITE_WIND_HIGH_MS) || 14;
+const WIND_MED_MS = Number(import.meta.env.VITE_WIND_MED_MS) || 10;
+const RAIN_MM = Number(import.meta.env.VITE_RAIN_MM) || 1;
+
+export type RouteAlert = { alert: AlertLite; distanceM: number; points: number };
+
+export type RouteRisk = {
+  score: number;                    // 0–100
+  label: RiskLabel;                 // 與 RiskHeaderCard 同一組門檻
+  risk: Level;
+  safety: Level;
+  alerts: RouteAlert[];             // 沿線告警（分數高的在前）
+  weatherPoints: number;
+  warnings: string[];
+};
+
+const toLevel = (l: RiskLabel): Level => (l === "HIGH" ? "high" : l === "MEDIUM" ? "medium" : "low");
+const SAFETY_OF: Record<Level, Level> = { low: "high", medium: "medium", high: "low" };
+
+function alertPoints(a: AlertLite) {
+  const base = SEVERITY_POINTS[a.severity ?? "medium"];
+  const extra = Math.min(MAX_REPORT_BONUS, Math.max(0, (a.reportCount ?? 1) - 1));
+  return base * (1 + extra * REPORT_BONUS);
+}
+
+/** 天氣分數 + 對應的警示文字 */
+function weatherRisk(w?: RiskWeather): { points: number; warnings: string[] } {
+  if (!w) return { points: 0, warnings: [] };
+  let points = 0;
+  const warnings: string[] = [];
+  const wind = w.windSpeed;
+  const rain = w.precipitation;
+  if (wind != null && wind >= WIND_HIGH_MS) {
+    points += 25;
+    warnings.push(`Strong winds (~${formatSpeed(wind)}) along this route`);
+  } else if (wind != null && wind >= WIND_MED_MS) {
+    points += 12;
+    warnings.push(`Gusty winds (~${formatSpeed(wind)}) along this route`);
+  }
+  if (rain != null && rain >= RAIN_MM) {
+    // 雨量每多 1 個門檻再加一點，最多 25
+    points += Math.min(25, 10 + (rain / RAIN_MM - 1) * 5);
+    warnings.push(`Rain (${rain.toFixed(1)} mm/h): expect slippery surfaces`);
+  }
+  return { points, warnings };
+}
+
+/** 路線上（緩衝區內）仍有效的告警 */
+export function alertsAlongPath(list: AlertLite[], path: LatLon[], bufferM = ROUTE_BUFFER_M, nowS = Date.now() / 1000): RouteAlert[] {
+  return list.flatMap((a) => {
+    if (isWeather(a) || a.status === "pending" || a.expiresAt <= nowS) return [];
+    const p = alertPosition(a);
+    if (!p) return [];
+    const distanceM = distanceToPathM({ lat: p.lat, lon: p.lng }, path);
+    return distanceM <= bufferM ? [{ alert: a, distanceM, points: alertPoints(a) }] : [];
+  });
+}
+
+/** 單條路線的風險 */
+export function scoreRoute(
+  path: LatLon[],
+  alerts: AlertLite[],
+  weather?: RiskWeather,
+  nowS = Date.now() / 1000
+): RouteRisk {
+  const onRoute = alertsAlongPath(alerts, path, ROUTE_BUFFER_M, nowS).sort((a, b) => b.points - a.points);
+  const w = weatherRisk(weather);
+  const score = Math.round(Math.min(100, onRoute.reduce((sum, x) => sum + x.points, 0) + w.points));
+  const label = riskLabel(score, getSettings());
+  const risk = toLevel(label);
+
+  const warnings = onRoute.map(({ alert, distanceM }) => {
+    const reports = alert.reportCount ?? 0;
+    const where = alert.address ? ` near ${alert.address}` : distanceM > 20 ? ` ${formatMeters(distanceM)} off the route` : " on the route";
+    const count = reports > 1 ? ` (${reports} reports)` : "";
+    return `${titleOf(alert)}${where}${count}`;
+  });
+
+  return {
+    score,
+    label,
+    risk,
+    safety: SAFETY_OF[risk],
+    alerts: onRoute,
+    weatherPoints: Math.round(w.points),
+    warnings: [...warnings, ...w.warnings],
+  };
+}
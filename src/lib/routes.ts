@@ -0,0 +1,218 @@
+// src/lib/routes.ts
+// 路線規劃 API（routing Lambda）：起訖點 → 候選路線（含分段的設施類型與高度）
+
+import type { GeoPoint } from "./geocode";
+import { haversineM } from "./geo";
+
+export type Level = "low" | "medium" | "high";
+
+/** 後端回傳的路段：from / to 為 geometry 座標的索引（含） */
+export type RouteApiSegment = {
+  from: number;
+  to: number;
+  infra?: string;                   // 例如 "Bike lane"
+  name?: string;                    // 路名
+  instruction?: string;             // 例如 "Turn left onto Swanston St"
+  distance?: number;
+  duration?: number;
+};
+
+/** 後端回傳的單條路線（distance 公尺、duration 秒、geometry 為 GeoJSON [lon, lat, ele?]） */
+export type RouteApiRoute = {
+  id?: string | number;
+  name?: string;
+  distance: number;
+  duration: number;
+  geometry?: { type: "LineString"; coordinates: number[][] };
+  infra?: string;                   // 例如 "Dedicated bike path"
+  segments?: RouteApiSegment[];
+  safety?: Level;
+  risk?: Level;
+  highlights?: string[];
+  warnings?: string[];
+};
+
+export type RoutesPayload = {
+  ok: boolean;
+  routes?: RouteApiRoute[];
+  message?: string;
+};
+
+/** 設施類型：自行車專用道 / 自行車道 / 混合車道 */
+export type InfraType = "path" | "lane" | "shared";
+
+export const INFRA_LABELS: Record<InfraType, string> = {
+  path: "Bike path",
+  lane: "Bike lane",
+  shared: "Shared road",
+};
+
+export type RoutePoint = GeoPoint & { ele?: number };
+
+export type RouteSegment = {
+  from: number;                     // path 索引（含）
+  to: number;
+  infra: InfraType;
+  infraText: string;                // 後端原始描述
+  name?: string;
+  instruction?: string;
+  distanceM: number;
+};
+
+/** 前端路線卡片用的模型（安全 / 風險 / 警示由 routeRisk.ts 依即時告警計算） */
+export type RouteCandidate = {
+  id: string;
+  name: string;
+  distanceM: number;
+  durationS: number;
+  path: RoutePoint[];
+  infra: string;
+  segments: RouteSegment[];
+  highlights: string[];
+};
+
+// 從 .env 讀取
+const ROUTES_URL = import.meta.env.VITE_ROUTES_URL as string | undefined;
+
+function toCandidate(r: RouteApiRoute, idx: number): RouteCandidate | null {
+  const distanceM = Number(r?.distance);
+  const durationS = Number(r?.duration);
+  if (!Number.isFinite(distanceM) || !Number.isFinite(durationS)) return null;
+
+  const coords = Array.isArray(r.geometry?.coordinates) ? r.geometry!.coordinates : [];
+  const path: RoutePoint[] = coords
+    .map(([lon, lat, ele]) => ({
+      lat: Number(lat),
+      lon: Number(lon),
+      ele: ele != null && Number.isFinite(Number(ele)) ? Number(ele) : undefined,
+    }))
+    .filter((p) => Number.isFinite(p.lat) && Number.isFinite(p.lon));
+  const infra = r.infra?.trim() || "Shared road";
+
+  return {
+    id: String(r.id ?? idx + 1),
+    name: r.name?.trim() || `Route ${idx + 1}`,
+    distanceM,
+    durationS,
+    path,
+    infra,
+    segments: toSegments(r.segments, path, infra),
+    highlights: Array.isArray(r.highlights) ? r.highlights.map(String) : [],
+  };
+}
+
+/** 設施描述 → 類型（後端用自由文字） */
+export function classifyInfra(text: string): InfraType {
+  const t = text.toLowerCase();
+  if (/path|trail|track|greenway|separated|protected/.test(t)) return "path";
+  if (/lane/.test(t)) return "lane";
+  return "shared";
+}
+
+/** 折線某一段的長度 */
+export function pathLengthM(path: GeoPoint[], from = 0, to = path.length - 1) {
+  let d = 0;
+  for (let i = from + 1; i <= to; i++) d += haversineM(path[i - 1], path[i]);
+  return d;
+}
+
+function toSegments(raw: RouteApiSegment[] | undefined, path: RoutePoint[], fallbackInfra: string): RouteSegment[] {
+  const last = path.length - 1;
+  const list = (Array.isArray(raw) ? raw : [])
+    .map((s) => ({ ...s, from: Math.max(0, Math.floor(Number(s.from))), to: Math.min(last, Math.floor(Number(s.to))) }))
+    .filter((s) => Number.isFinite(s.from) && Number.isFinite(s.to) && s.to > s.from)
+    .sort((a, b) => a.from - b.from);
+
+  // 後端沒給分段：整條路線當一段
+  if (list.length === 0) {
+    return last > 0
+      ? [{ from: 0, to: last, infra: classifyInfra(fallbackInfra), infraText: fallbackInfra, distanceM: pathLengthM(path) }]
+      : [];
+  }
+
+  return list.map((s) => {
+    const infraText = s.infra?.trim() || fallbackInfra;
+    const distance = Number(s.distance);
+    return {
+      from: s.from,
+      to: s.to,
+      infra: classifyInfra(infraText),
+      infraText,
+      name: s.name?.trim() || undefined,
+      instruction: s.instruction?.trim() || undefined,
+      distanceM: Number.isFinite(distance) ? distance : pathLengthM(path, s.from, s.to),
+    };
+  });
+}
+
+/** 高度統計（路線沒有高度資料就回 null） */
+export function elevationStats(path: RoutePoint[], from = 0, to = path.length - 1) {
+  const eles = path.slice(from, to + 1).map((p) => p.ele).filter((e): e is number => e != null);
+  if (eles.length < 2) return null;
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i < eles.length; i++) {
+    const d = eles[i] - eles[i - 1];
+    if (d > 0) gain += d;
+    else loss -= d;
+  }
+  return { gain, loss, min: Math.min(...eles), max: Math.max(...eles) };
+}
+
+// 同一組起訖點在短時間內重複查（例如清單 → 詳細頁）直接用上次的結果
+const CACHE_MS = 5 * 60_000;
+const cache = new Map<string, { at: number; routes: RouteCandidate[] }>();
+const cacheKey = (from: GeoPoint, to: GeoPoint) =>
+  [from.lat, from.lon, to.lat, to.lon].map((n) => n.toFixed(5)).join(",");
+
+/** 取得起訖點之間的候選路線 */
+export async function fetchRoutes(
+  from: GeoPoint,
+  to: GeoPoint,
+  signal?: AbortSignal
+): Promise<RouteCandidate[]> {
+  if (!ROUTES_URL) throw new Error("Missing VITE_ROUTES_URL");
+
+  const key = cacheKey(from, to);
+  const hit = cache.get(key);
+  if (hit && Date.now() - hit.at < CACHE_MS) return hit.routes;
+
+  const url = new URL(ROUTES_URL);
+  url.searchParams.set("from", `${from.lat},${from.lon}`);
+  url.searchParams.set("to", `${to.lat},${to.lon}`);
+  url.searchParams.set("profile", "bike");
+  url.searchParams.set("alternatives", "3");
+
+  const res = await fetch(url.toString(), {
+    cache: "no-store",
+    headers: { Accept: "application/json" },
+    signal,
+  });
+
+  const data: RoutesPayload = await res.json().catch(() => ({ ok: false }));
+  if (!res.ok || data?.ok === false) {
+    throw new Error(data?.message || "Failed to load routes");
+  }
+
+  const list = Array.isArray(data.routes) ? data.routes : [];
+  const routes = list
+    .map(toCandidate)
+    .filter((r): r is RouteCandidate => r !== null);
+  cache.set(key, { at: Date.now(), routes });
+  return routes;
+}
+
+/** 8200 → "8.2 km"；< 1 km 顯示公尺 */
+export function formatDistance(m: number) {
+  if (m < 1000) return `${Math.round(m)} m`;
+  return `${(m / 1000).toFixed(1)} km`;
+}
+
+/** 1500 → "25 mins"；超過 1 小時 → "1 h 5 mins" */
+export function formatDuration(s: number) {
+  const mins = Math.max(1, Math.round(s / 60));
+  if (mins < 60) return `${mins} min${mins > 1 ? "s" : ""}`;
+  const h = Math.floor(mins / 60);
+  const m = mins % 60;
+  return m ? `${h} h ${m} min${m > 1 ? "s" : ""}` : `${h} h`;
+}
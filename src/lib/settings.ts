@@ -0,0 +1,100 @@
+// src/lib/settings.ts
+// 使用者偏好設定：存在 bus store 的 settings 欄位，變更時發送 settings 事件
+
+import { useEffect, useState } from "react";
+import { emit, load, on, remove, save } from "./bus";
+
+export type SpeedUnit = "m/s" | "km/h";
+
+export type Settings = {
+  alertRadiusM: number;             // 告警半徑（公尺）
+  notifyCooldownS: number;          // 本地通知冷卻（秒）
+  mediumRiskThreshold: number;      // 風險 ≥ 此值為 MEDIUM（0–100）
+  highRiskThreshold: number;        // 風險 ≥ 此值為 HIGH（0–100）
+  speedUnit: SpeedUnit;             // 風速顯示單位
+  fallbackLocation: { lat: number; lon: number; label: string }; // 無法定位時的預設位置
+  pollIntervalS: number;            // 告警 / 風險輪詢間隔（秒）
+  rideWarnDistanceM: number;        // 騎乘模式：距離告警多近開始警示（公尺）
+  rideSound: boolean;               // 騎乘模式：警示時發出提示音
+};
+
+export const RADIUS_OPTIONS = [500, 1000, 2000, 5000, 10000];
+export const COOLDOWN_OPTIONS = [30, 60, 90, 180, 300];
+export const POLL_OPTIONS = [30, 60, 120, 300];
+export const RIDE_WARN_OPTIONS = [100, 200, 300, 500, 1000];
+
+// 門檻預設值沿用 .env（VITE_MEDIUM_RISK / VITE_HIGH_RISK）
+export const DEFAULT_SETTINGS: Settings = {
+  alertRadiusM: 2000,
+  notifyCooldownS: 90,
+  mediumRiskThreshold: Number(import.meta.env.VITE_MEDIUM_RISK ?? 40),
+  highRiskThreshold: Number(import.meta.env.VITE_HIGH_RISK ?? 70),
+  speedUnit: "m/s",
+  fallbackLocation: { lat: -37.8136, lon: 144.9631, label: "Melbourne CBD" },
+  pollIntervalS: Math.round(Number(import.meta.env.VITE_REFRESH_MS ?? 60000) / 1000),
+  rideWarnDistanceM: 300,
+  rideSound: true,
+};
+
+const inRange = (v: unknown, min: number, max: number): v is number =>
+  typeof v === "number" && Number.isFinite(v) && v >= min && v <= max;
+
+/** 把存起來的值和預設值合併；不合法的欄位回到預設 */
+export function parseSettings(raw: unknown): Settings {
+  const r = (typeof raw === "object" && raw !== null ? raw : {}) as Partial<Settings>;
+  const d = DEFAULT_SETTINGS;
+
+  const med = inRange(r.mediumRiskThreshold, 0, 100) ? r.mediumRiskThreshold : d.mediumRiskThreshold;
+  const high = inRange(r.highRiskThreshold, 0, 100) ? r.highRiskThreshold : d.highRiskThreshold;
+  const fb = r.fallbackLocation;
+
+  return {
+    alertRadiusM: inRange(r.alertRadiusM, 100, 50_000) ? r.alertRadiusM : d.alertRadiusM,
+    notifyCooldownS: inRange(r.notifyCooldownS, 0, 3600) ? r.notifyCooldownS : d.notifyCooldownS,
+    // medium 一定要小於 high，否則兩個都回預設
+    mediumRiskThreshold: med < high ? med : d.mediumRiskThreshold,
+    highRiskThreshold: med < high ? high : d.highRiskThreshold,
+    speedUnit: r.speedUnit === "km/h" ? "km/h" : "m/s",
+    fallbackLocation:
+      fb && inRange(fb.lat, -90, 90) && inRange(fb.lon, -180, 180)
+        ? { lat: fb.lat, lon: fb.lon, label: String(fb.label || `${fb.lat.toFixed(4)}, ${fb.lon.toFixed(4)}`) }
+        : d.fallbackLocation,
+    pollIntervalS: inRange(r.pollIntervalS, 10, 3600) ? r.pollIntervalS : d.pollIntervalS,
+    rideWarnDistanceM: inRange(r.rideWarnDistanceM, 50, 5000) ? r.rideWarnDistanceM : d.rideWarnDistanceM,
+    rideSound: typeof r.rideSound === "boolean" ? r.rideSound : d.rideSound,
+  };
+}
+
+/** 讀取目前設定（非 React 模組用這個，每次呼叫都是最新值） */
+export function getSettings(): Settings {
+  return load("settings") ?? { ...DEFAULT_SETTINGS };
+}
+
+/** 局部更新並廣播 */
+export function updateSettings(patch: Partial<Settings>): Settings {
+  const next = parseSettings({ ...getSettings(), ...patch });
+  save("settings", next);
+  emit("settings", next);
+  return next;
+}
+
+export function resetSettings(): Settings {
+  remove("settings");
+  const next = getSettings();
+  emit("settings", next);
+  return next;
+}
+
+/** React hook：設定變更（含其他分頁）時自動更新 */
+export function useSettings(): Settings {
+  const [settings, setSettings] = useState<Settings>(getSettings);
+
+  useEffect(() => on("settings", setSettings), []);
+
+  return settings;
+}
+
+/** 風速（API 為 m/s）依使用者單位格式化 */
+export function formatSpeed(ms: number, unit: SpeedUnit = getSettings().speedUnit) {
+  return unit === "km/h" ? `${Math.round(ms * 3.6)} km/h` : `${Math.round(ms)} m/s`;
+}
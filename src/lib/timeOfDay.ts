@@ -0,0 +1,35 @@
+// src/lib/timeOfDay.ts
+// 各時段的事故風險：出發時間規劃用這份預設值計分，DataInsights 用同樣的時段切分彙整實際事故
+
+export type TimeBucket = {
+  time: string;                     // 顯示用，例如 "8–10 AM"
+  fromHour: number;                 // 含
+  toHour: number;                   // 不含；小於 fromHour 表示跨午夜
+  level: "Low" | "Medium" | "High";
+  incidents: number;                // 每月事故數
+};
+
+export const RISK_BY_TIME: TimeBucket[] = [
+  { time: "6–8 AM", fromHour: 6, toHour: 8, level: "Low", incidents: 12 },
+  { time: "8–10 AM", fromHour: 8, toHour: 10, level: "High", incidents: 45 },
+  { time: "10 AM–3 PM", fromHour: 10, toHour: 15, level: "Low", incidents: 8 },
+  { time: "3–6 PM", fromHour: 15, toHour: 18, level: "Medium", incidents: 32 },
+  { time: "6–8 PM", fromHour: 18, toHour: 20, level: "High", incidents: 38 },
+  { time: "8 PM+", fromHour: 20, toHour: 6, level: "Medium", incidents: 18 },
+];
+
+const MAX_TIME_POINTS = 30;         // 最危險的時段最多加幾分
+
+export function bucketAt(hour: number): TimeBucket | undefined {
+  return RISK_BY_TIME.find((b) =>
+    b.fromHour <= b.toHour ? hour >= b.fromHour && hour < b.toHour : hour >= b.fromHour || hour < b.toHour
+  );
+}
+
+/** 某個時間點的時段風險分數（0–30，依事故數比例） */
+export function timeOfDayPoints(at: number | Date): number {
+  const bucket = bucketAt(new Date(at).getHours());
+  if (!bucket) return 0;
+  const max = Math.max(...RISK_BY_TIME.map((b) => b.incidents));
+  return (bucket.incidents / max) * MAX_TIME_POINTS;
+}
@@ -0,0 +1,230 @@
+// src/lib/tracks.ts
+// 騎乘軌跡檔案：匯出 GPX 1.1 / GeoJSON，匯入 GPX（也接受 GeoJSON LineString）
+
+import type { LatLon } from "./geo";
+import { haversineM } from "./geo";
+
+export type TrackPoint = LatLon & {
+  t?: number;                       // epoch ms
+  speed?: number;                   // m/s
+  ele?: number;                     // 公尺
+};
+
+export type Waypoint = LatLon & {
+  name: string;
+  desc?: string;
+  t?: number;
+  speed?: number;
+  type?: string;                    // 例如 "start" / "finish" / "hazard"
+};
+
+export type Track = {
+  name: string;
+  points: TrackPoint[];
+  waypoints: Waypoint[];
+};
+
+// Garmin TrackPointExtension v2：GPX 1.1 本身沒有速度欄位
+const GPXTPX_NS = "http://www.garmin.com/xmlschemas/TrackPointExtension/v2";
+
+/** 軌跡總長（公尺） */
+export function trackLengthM(points: LatLon[]) {
+  let d = 0;
+  for (let i = 1; i < points.length; i++) d += haversineM(points[i - 1], points[i]);
+  return d;
+}
+
+// ===== 匯出 =====
+
+const esc = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+const iso = (t?: number) => (t ? new Date(t).toISOString() : undefined);
+const coord = (n: number) => n.toFixed(7);
+
+function speedExt(speed?: number) {
+  if (speed == null || !Number.isFinite(speed)) return "";
+  return `<extensions><gpxtpx:TrackPointExtension><gpxtpx:speed>${speed.toFixed(2)}</gpxtpx:speed></gpxtpx:TrackPointExtension></extensions>`;
+}
+
+export function toGpx(track: Track): string {
+  const wpts = track.waypoints.map((w) =>
+    [
+      `  <wpt lat="${coord(w.lat)}" lon="${coord(w.lon)}">`,
+      w.t ? `    <time>${iso(w.t)}</time>` : "",
+      `    <name>${esc(w.name)}</name>`,
+      w.desc ? `    <desc>${esc(w.desc)}</desc>` : "",
+      w.type ? `    <type>${esc(w.type)}</type>` : "",
+      speedExt(w.speed) ? `    ${speedExt(w.speed)}` : "",
+      "  </wpt>",
+    ].filter(Boolean).join("\n")
+  );
+  const trkpts = track.points.map((p) =>
+    [
+      `      <trkpt lat="${coord(p.lat)}" lon="${coord(p.lon)}">`,
+      p.ele != null ? `<ele>${p.ele.toFixed(1)}</ele>` : "",
+      p.t ? `<time>${iso(p.t)}</time>` : "",
+      speedExt(p.speed),
+      "</trkpt>",
+    ].join("")
+  );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="CycSafe" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="${GPXTPX_NS}">`,
+    `  <metadata><name>${esc(track.name)}</name>${track.points[0]?.t ? `<time>${iso(track.points[0].t)}</time>` : ""}</metadata>`,
+    ...wpts,
+    "  <trk>",
+    `    <name>${esc(track.name)}</name>`,
+    "    <trkseg>",
+    ...trkpts,
+    "    </trkseg>",
+    "  </trk>",
+    "</gpx>",
+    "",
+  ].join("\n");
+}
+
+export function toGeoJson(track: Track): string {
+  const line = {
+    type: "Feature",
+    geometry: {
+      type: "LineString",
+      coordinates: track.points.map((p) => (p.ele != null ? [p.lon, p.lat, p.ele] : [p.lon, p.lat])),
+    },
+    properties: {
+      name: track.name,
+      distanceM: Math.round(trackLengthM(track.points)),
+      // 與 coordinates 一一對應（和 togeojson 的 coordTimes 相同慣例）
+      coordTimes: track.points.map((p) => iso(p.t) ?? null),
+      speeds: track.points.map((p) => p.speed ?? null),
+    },
+  };
+  const points = track.waypoints.map((w) => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [w.lon, w.lat] },
+    properties: { name: w.name, desc: w.desc, time: iso(w.t), speed: w.speed, type: w.type },
+  }));
+  return JSON.stringify({ type: "FeatureCollection", features: [line, ...points] }, null, 2);
+}
+
+// ===== 匯入 =====
+
+const num = (v: string | null | undefined) => {
+  const n = Number(v);
+  return v != null && v !== "" && Number.isFinite(n) ? n : undefined;
+};
+
+const validLatLon = (lat?: number, lon?: number): lat is number =>
+  lat != null && lon != null && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+
+/** 依副檔名 / 內容判斷格式；解析失敗丟錯 */
+export function parseTrackFile(fileName: string, text: string): Track {
+  const trimmed = text.trim();
+  const fallbackName = fileName.replace(/\.[^.]+$/, "") || "Imported track";
+  const track = trimmed.startsWith("{") ? parseGeoJson(trimmed, fallbackName) : parseGpx(trimmed, fallbackName);
+  if (track.points.length < 2) throw new Error("The file has no track with at least two points.");
+  return track;
+}
+
+function parseGpx(text: string, fallbackName: string): Track {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length || doc.documentElement.localName !== "gpx") {
+    throw new Error("Not a valid GPX file.");
+  }
+
+  // 只認 localName，避免命名空間差異（GPX 1.0 / 1.1）
+  const byName = (el: Element | Document, name: string) =>
+    Array.from(el.getElementsByTagName("*")).filter((n) => n.localName === name);
+  const childText = (el: Element, name: string) =>
+    Array.from(el.children).find((c) => c.localName === name)?.textContent?.trim() || undefined;
+  const time = (el: Element) => {
+    const t = Date.parse(childText(el, "time") ?? "");
+    return Number.isFinite(t) ? t : undefined;
+  };
+  const speed = (el: Element) => num(childText(el, "speed") ?? byName(el, "speed")[0]?.textContent);
+
+  // trkpt 優先；沒有就用 rtept（路線檔）
+  let pts = byName(doc, "trkpt");
+  if (pts.length === 0) pts = byName(doc, "rtept");
+  const points: TrackPoint[] = pts.flatMap((el) => {
+    const lat = num(el.getAttribute("lat"));
+    const lon = num(el.getAttribute("lon"));
+    if (!validLatLon(lat, lon)) return [];
+    return [{ lat, lon: lon!, t: time(el), speed: speed(el), ele: num(childText(el, "ele")) }];
+  });
+
+  const waypoints: Waypoint[] = byName(doc, "wpt").flatMap((el) => {
+    const lat = num(el.getAttribute("lat"));
+    const lon = num(el.getAttribute("lon"));
+    if (!validLatLon(lat, lon)) return [];
+    return [{
+      lat,
+      lon: lon!,
+      name: childText(el, "name") ?? "Waypoint",
+      desc: childText(el, "desc"),
+      t: time(el),
+      speed: speed(el),
+      type: childText(el, "type"),
+    }];
+  });
+
+  const meta = byName(doc, "metadata")[0];
+  const trk = byName(doc, "trk")[0];
+  const name = (meta && childText(meta, "name")) || (trk && childText(trk, "name")) || fallbackName;
+  return { name, points, waypoints };
+}
+
+function parseGeoJson(text: string, fallbackName: string): Track {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a valid GeoJSON file.");
+  }
+
+  type Feature = { geometry?: { type?: string; coordinates?: unknown }; properties?: Record<string, unknown> };
+  const d = data as { type?: string; features?: Feature[] } & Feature;
+  const features: Feature[] = d.type === "FeatureCollection" ? d.features ?? [] : d.type === "Feature" ? [d] : [];
+
+  const line = features.find((f) => f.geometry?.type === "LineString");
+  const coords = Array.isArray(line?.geometry?.coordinates) ? (line!.geometry!.coordinates as unknown[]) : [];
+  const times = Array.isArray(line?.properties?.coordTimes) ? (line!.properties!.coordTimes as unknown[]) : [];
+  const speeds = Array.isArray(line?.properties?.speeds) ? (line!.properties!.speeds as unknown[]) : [];
+
+  const points: TrackPoint[] = coords.flatMap((c, i) => {
+    if (!Array.isArray(c)) return [];
+    const lon = num(String(c[0]));
+    const lat = num(String(c[1]));
+    if (!validLatLon(lat, lon)) return [];
+    const t = Date.parse(String(times[i] ?? ""));
+    return [{
+      lat,
+      lon: lon!,
+      ele: num(c[2] == null ? undefined : String(c[2])),
+      t: Number.isFinite(t) ? t : undefined,
+      speed: num(speeds[i] == null ? undefined : String(speeds[i])),
+    }];
+  });
+
+  const waypoints: Waypoint[] = features
+    .filter((f) => f.geometry?.type === "Point" && Array.isArray(f.geometry.coordinates))
+    .flatMap((f) => {
+      const [lonRaw, latRaw] = f.geometry!.coordinates as unknown[];
+      const lat = num(String(latRaw));
+      const lon = num(String(lonRaw));
+      if (!validLatLon(lat, lon)) return [];
+      const p = f.properties ?? {};
+      const t = Date.parse(String(p.time ?? ""));
+      return [{
+        lat,
+        lon: lon!,
+        name: typeof p.name === "string" ? p.name : "Waypoint",
+        desc: typeof p.desc === "string" ? p.desc : undefined,
+        t: Number.isFinite(t) ? t : undefined,
+        type: typeof p.type === "string" ? p.type : undefined,
+      }];
+    });
+
+  const name = typeof line?.properties?.name === "string" ? line.properties.name : fallbackName;
+  return { name, points, waypoints };
+}
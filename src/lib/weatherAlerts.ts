@@ -0,0 +1,75 @@
+// src/lib/weatherAlerts.ts
+// 本地天氣告警：依風險結果寫入/移除 store 的 weather.alerts（alertsService 會合併進 alerts.list）
+
+import type { AlertLite } from "./alerts";
+import { emit, load, save } from "./bus";
+import { formatSpeed } from "./settings";
+
+export type RiskText = "Low Risk" | "Medium Risk" | "High Risk";
+export type RiskWeather = { windSpeed?: number; precipitation?: number; temperature?: number };
+
+function roundCell(lat: number, lon: number, p = 3) {
+  const f = 10 ** p;
+  const latc = Math.floor(lat * f) / f;
+  const lonc = Math.floor(lon * f) / f;
+  return `${latc.toFixed(p)}_${lonc.toFixed(p)}`;
+}
+
+function upsertWeatherAlert(a: AlertLite) {
+  const list = load("weather.alerts", []);
+  const idx = list.findIndex((x) => x.clusterId === a.clusterId);
+  if (idx === -1) list.push(a); else list[idx] = a;
+  save("weather.alerts", list);
+  // 提醒 alertsService 立刻重抓並合併
+  emit("weather:list");
+}
+
+function removeWeatherAlert(clusterId: string) {
+  const list = load("weather.alerts", []);
+  if (!list.some((x) => x.clusterId === clusterId)) return;
+  const next = list.filter((x) => x.clusterId !== clusterId);
+  save("weather.alerts", next);
+  emit("weather:list");
+}
+
+/** 依風險產生/更新本地天氣告警（供鈴鐺與 AlertsPage 顯示）；低風險就移除 */
+export function publishWeatherFromRisk(
+  rt: RiskText,
+  addr: string,
+  lat: number,
+  lon: number,
+  weather?: RiskWeather
+) {
+  const clusterId = `weather#${roundCell(lat, lon, 3)}`;
+
+  // 低風險 → 移除
+  if (rt === "Low Risk") {
+    removeWeatherAlert(clusterId);
+    return;
+  }
+
+  // 文案（可帶上 API 回來的數字）
+  const wind = weather?.windSpeed != null ? `~${formatSpeed(Number(weather.windSpeed))}` : undefined;
+  const rain = weather?.precipitation != null ? `${Number(weather.precipitation).toFixed(1)} mm/h` : undefined;
+  const details = [wind && `winds (${wind})`, rain && `rain (${rain})`].filter(Boolean).join(" or ");
+
+  const sev: AlertLite["severity"] = rt === "High Risk" ? "high" : "medium";
+  const desc =
+    rt === "High Risk"
+      ? `Severe Weather Warning. ${details || "Strong winds or heavy rain"}. Reduced visibility and hazardous conditions.`
+      : `Weather Advisory. ${details || "Gusty winds or rain expected"}. Use caution while cycling.`;
+  const ttlMin = rt === "High Risk" ? 30 : 20;
+
+  upsertWeatherAlert({
+    clusterId,
+    incidentType: "severe_weather",
+    description: desc,
+    severity: sev,
+    expiresAt: Math.floor(Date.now() / 1000) + ttlMin * 60,
+    lastReportAt: Math.floor(Date.now() / 1000),
+    ackable: false,
+    photoUrls: [],
+    address: addr,
+    agoText: "0 minutes ago",
+  });
+}
@@ -1,5 +1,6 @@
 // src/pages/AlertsPage.tsx
-import { useEffect, useMemo, useRef, useState, useCallback } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import "./AlertsPage.css";
 import AlertItem from "../components/AlertItem";
 
@@ -9,197 +10,130 @@ import infrastructureIcon from "../assets/infrastructure.svg";
 import warningIcon from "../assets/warning.svg";
 import bellOutlineIcon from "../assets/bell-outline.svg";
 import { timeFromNow } from "../lib/time";
-
-type Priority = "CRITICAL" | "HIGH" | "MEDIUM" | "LOW";
-type Category = "WEATHER" | "TRAFFIC" | "INFRA" | "SAFETY";
-
-type AlertModel = {
-  title: string;
-  description: string;
-  location: string;
-  // time 改為可選，實際會由 timestamp 動態計算
-  time?: string;
-  timestamp?: number | string; // ← 新增，用於相對時間
-  priority: Priority;
-  category: Category;
+import {
+  toAlertModel,
+  setAlertRadiusM,
+  isRelevant,
+  CATEGORIES,
+  PRIORITIES,
+  type AlertLite,
+  type AlertModel,
+  type Category,
+  type Priority,
+} from "../lib/alerts";
+import { emit, load, on } from "../lib/bus";
+import { exportAlerts, type ExportFormat } from "../lib/dataExport";
+import { formatMeters, haversineM } from "../lib/geo";
+import { useRisk } from "../services/riskService";
+import { useSettings, RADIUS_OPTIONS } from "../lib/settings";
+import { alertsUpdatedAt, useOnline } from "../lib/offline";
+import StaleBanner from "../components/StaleBanner";
+
+// ===== 篩選 / 排序（存在網址 query：?cat=TRAFFIC,INFRA&pri=HIGH&sort=distance&q=tram）=====
+type SortKey = "distance" | "recent" | "remaining";
+const SORTS: { key: SortKey; label: string }[] = [
+  { key: "remaining", label: "Time remaining" },
+  { key: "recent",    label: "Most recent" },
+  { key: "distance",  label: "Nearest" },
+];
+
+const CATEGORY_LABELS: Record<Category, string> = {
+  WEATHER: "Weather",
+  TRAFFIC: "Traffic",
+  INFRA:   "Infrastructure",
+  SAFETY:  "Safety",
 };
 
-type RiskResp = {
-  ok: boolean;
-  address?: string;
-  lat?: number;
-  lon?: number;
-  weather?: {
-    windSpeed?: number;      // m/s
-    precipitation?: number;  // mm/h
-    temperature?: number;    // °C
-  };
-  atmosphere?: string;
+/** "A,B" → Set（只留合法值） */
+function parseSet<T extends string>(raw: string | null, allowed: readonly T[]): Set<T> {
+  const parts = (raw || "").split(",").map((s) => s.trim().toUpperCase());
+  return new Set(allowed.filter((v) => parts.includes(v)));
+}
+
+const distanceOf = (a: AlertModel, here: { lat: number; lon: number } | null) => {
+  if (a.distanceM != null) return a.distanceM;
+  return here && a.lat != null && a.lng != null
+    ? haversineM(here, { lat: a.lat, lon: a.lng })
+    : Number.POSITIVE_INFINITY;
 };
 
-const API =
-  import.meta.env.VITE_LAMBDA_URL ??
-  "https://dbetjhlyj7smwrgcptcozm6amq0ovept.lambda-url.ap-southeast-2.on.aws/";
-
-const FALLBACK = { lat: -37.8136, lon: 144.9631 }; // Melbourne CBD
-const ADDRESS_KEY = "cs.address";
-const COORDS_KEY  = "cs.coords";
-
-// Open-Meteo：風速 m/s；1 m/s ≈ 3.6 km/h
-const WIND_MED  = 11;   // ≈ 40 km/h
-const WIND_HIGH = 17;   // ≈ 61 km/h
-const RAIN_MED  = 1.0;  // mm/h
-const RAIN_HIGH = 3.0;  // mm/h
-
 export default function AlertsPage() {
-  const [alerts, setAlerts] = useState<AlertModel[]>([]);
-  const [address, setAddress] = useState<string>("");
-  const [, setTick] = useState(0); // 每分鐘觸發重算相對時間
-
-  // 最新座標記在 ref，供輪詢 & 事件回呼使用
-  const coordsRef = useRef<{ lat: number; lon: number }>(FALLBACK);
-  const pollRef   = useRef<number | null>(null);
-
-  /** 安全清洗：過濾 undefined/空事件、缺少必要欄位的事件 */
-  const sanitizeIncidents = (list: AlertModel[]) => {
-    return (list || [])
-      .filter(Boolean)
-      .filter(x => x.title || x.description)
-      .filter(x => x.timestamp != null);
+  // 清單來源：alertsService 合併後的 cs.alerts.list（clusters + 天氣）
+  const [list, setList] = useState<AlertLite[]>(() => load("alerts.list", []));
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000)); // 每分鐘重算相對時間 / 過期
+
+  // 目前位置（給距離排序用）；風險 / 地址 / 天氣告警都由 riskService 負責
+  const here = useRisk().coords;
+
+  // 篩選狀態全部放在網址 query，方便分享
+  const [params, setParams] = useSearchParams();
+  const cats = useMemo(() => parseSet(params.get("cat"), CATEGORIES), [params]);
+  const pris = useMemo(() => parseSet(params.get("pri"), PRIORITIES), [params]);
+  const sortParam = params.get("sort");
+  const sort: SortKey = SORTS.some((s) => s.key === sortParam) ? (sortParam as SortKey) : "remaining";
+  const query = params.get("q") ?? "";
+  const focusId = params.get("alert"); // 推播通知深連結：/alerts?alert=<clusterId>
+
+  const updateParam = (key: string, value: string) => {
+    setParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        if (value) next.set(key, value);
+        else next.delete(key);
+        return next;
+      },
+      { replace: true }
+    );
   };
 
-  /** 根據風/雨組裝一張 Weather Alert（不到門檻回 null） */
-  const buildWeatherAlert = (data: RiskResp): AlertModel | null => {
-    const ws   = Number(data.weather?.windSpeed ?? 0);       // m/s
-    const rain = Number(data.weather?.precipitation ?? 0);   // mm/h
-    const addr =
-      data.address ||
-      localStorage.getItem(ADDRESS_KEY) ||
-      [data.lat, data.lon].filter(Boolean).join(", ");
-
-    if (ws >= WIND_HIGH || rain >= RAIN_HIGH) {
-      return {
-        title: "Severe Weather Warning",
-        description: `Strong winds (~${Math.round(ws)} m/s) or heavy rain (${rain.toFixed(1)} mm/h). Reduced visibility and hazardous conditions.`,
-        location: addr || "Your area",
-        timestamp: Date.now(),            // ← 不再塞固定字串時間
-        priority: "HIGH",
-        category: "WEATHER",
-      };
-    }
-    if (ws >= WIND_MED || rain >= RAIN_MED) {
-      return {
-        title: "Weather Alert",
-        description: `Wind ~ ${Math.round(ws)} m/s • Rain ${rain.toFixed(1)} mm/h • Please ride with caution.`,
-        location: addr || "Your area",
-        timestamp: Date.now(),            // ← 不再塞固定字串時間
-        priority: "MEDIUM",
-        category: "WEATHER",
-      };
-    }
-    return null;
+  /** 只清篩選條件；排序與深連結（alert）保留 */
+  const clearFilters = () => {
+    setParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        ["cat", "pri", "q"].forEach((k) => next.delete(k));
+        return next;
+      },
+      { replace: true }
+    );
   };
 
-  /** 取 alerts，並更新地址與總數廣播 */
-  const fetchAlerts = useCallback(async (lat: number, lon: number, signal?: AbortSignal) => {
-    try {
-      const url = new URL(API);
-      url.searchParams.set("lat", String(lat));
-      url.searchParams.set("lon", String(lon));
-      url.searchParams.set("ts", String(Date.now())); // cache-bust
-
-      const res = await fetch(url.toString(), { cache: "no-store", signal });
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const data: RiskResp = await res.json();
-
-      const addr = data.address || `${lat.toFixed(5)}, ${lon.toFixed(5)}`;
-      setAddress(addr);
-      try {
-        localStorage.setItem(ADDRESS_KEY, addr);
-        window.dispatchEvent(new CustomEvent("cs:address", { detail: addr }));
-      } catch {}
-
-      const next: AlertModel[] = [];
-      const weatherAlert = data.ok ? buildWeatherAlert(data) : null;
-      if (weatherAlert) next.push(weatherAlert);
-
-      const cleaned = sanitizeIncidents(next);
-      setAlerts(cleaned);
-
-      // 廣播總數 & 清單（給首頁/鈴鐺同步）
-      try {
-        const total = cleaned.length;
-        localStorage.setItem("cs.alerts.total", String(total));
-        window.dispatchEvent(new CustomEvent("cs:alerts", { detail: { total } }));
-
-        localStorage.setItem("cs.alerts.list", JSON.stringify(cleaned));
-        window.dispatchEvent(new CustomEvent("cs:alerts:list", { detail: { list: cleaned } }));
-      } catch {}
-    } catch (e) {
-      console.error("fetch alerts failed:", e);
-      setAddress(`${lat.toFixed(5)}, ${lon.toFixed(5)}`);
-      setAlerts([]);
-    }
-  }, []);
-
-  /** 初始化：讀取現有座標（Home 已經會存），沒有就用 FALLBACK；立刻抓一次 */
-  useEffect(() => {
-    try {
-      const saved = localStorage.getItem(COORDS_KEY);
-      if (saved) {
-        const { lat, lon } = JSON.parse(saved);
-        if (Number.isFinite(lat) && Number.isFinite(lon)) {
-          coordsRef.current = { lat, lon };
-        }
-      }
-    } catch {}
-    const ac = new AbortController();
-    fetchAlerts(coordsRef.current.lat, coordsRef.current.lon, ac.signal);
-    return () => ac.abort();
-  }, [fetchAlerts]);
-
-  /** 跟上首頁座標變化（Home 會 dispatch `cs:coords`） */
-  useEffect(() => {
-    const onCoords = (e: Event) => {
-      const d = (e as CustomEvent).detail as { lat?: number; lon?: number } | undefined;
-      if (d?.lat != null && d?.lon != null) {
-        coordsRef.current = { lat: d.lat, lon: d.lon };
-        const ac = new AbortController();
-        fetchAlerts(d.lat, d.lon, ac.signal);
-      }
-    };
-    window.addEventListener("cs:coords", onCoords);
-    return () => window.removeEventListener("cs:coords", onCoords);
-  }, [fetchAlerts]);
+  const toggleIn = <T extends string>(key: string, set: Set<T>, v: T, order: readonly T[]) => {
+    const next = new Set(set);
+    if (next.has(v)) next.delete(v);
+    else next.add(v);
+    updateParam(key, order.filter((x) => next.has(x)).join(","));
+  };
 
-  /** 前景輪詢：可見時每 60s 刷新；切回分頁或 focus 立即刷新 */
+  /** 訂閱 alertsService 的合併清單（本頁不寫入 alerts.*） */
   useEffect(() => {
-    const poll = () => {
-      if (document.visibilityState !== "visible") return;
-      const ac = new AbortController();
-      fetchAlerts(coordsRef.current.lat, coordsRef.current.lon, ac.signal);
-    };
-
-    const onVis = () => {
-      if (document.visibilityState === "visible") poll();
-    };
-    const onFocus = () => poll();
-
-    document.addEventListener("visibilitychange", onVis);
-    window.addEventListener("focus", onFocus);
+    const off = on("alerts:list", ({ list }) => setList(list));
+    emit("alerts:maybeChanged");
+    return off;
+  }, []);
 
-    pollRef.current = window.setInterval(poll, 60 * 1000);
+  // 只顯示半徑內的告警（半徑外的仍在地圖上）；半徑來自設定
+  const { alertRadiusM: radiusM } = useSettings();
+  // 離線時清單無法更新：照樣列出上次的清單（含已過期的），並標示為舊資料
+  const online = useOnline();
+  const alerts = useMemo(
+    () =>
+      list
+        .filter((a) => (!online || a.expiresAt > now) && (isRelevant(a, radiusM) || a.clusterId === focusId))
+        .map(toAlertModel),
+    [list, now, radiusM, focusId, online]
+  );
+  const beyond = list.filter((a) => (!online || a.expiresAt > now) && !isRelevant(a, radiusM)).length;
 
-    // 讓相對時間每分鐘自動重算（即使沒有新資料）
-    const tickId = window.setInterval(() => setTick(v => v + 1), 60_000);
+  const changeRadius = (m: number) => {
+    setAlertRadiusM(m); // alertsService 會重算鈴鐺數
+  };
 
-    return () => {
-      document.removeEventListener("visibilitychange", onVis);
-      window.removeEventListener("focus", onFocus);
-      if (pollRef.current) window.clearInterval(pollRef.current);
-      window.clearInterval(tickId);
-    };
-  }, [fetchAlerts]);
+  /** 讓相對時間每分鐘自動重算（即使沒有新資料） */
+  useEffect(() => {
+    const tickId = window.setInterval(() => setNow(Math.floor(Date.now() / 1000)), 60_000);
+    return () => window.clearInterval(tickId);
+  }, []);
 
   // Summary 計數
   const { critical, high, medium, low } = useMemo(() => {
@@ -221,8 +155,45 @@ export default function AlertsPage() {
     };
   }, [alerts]);
 
+  // 篩選 + 搜尋 + 排序後的清單（上面的計數仍以全部為準）
+  const shown = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const list = alerts.filter((a) => {
+      if (a.id === focusId) return true; // 深連結的那筆不受篩選影響
+      if (cats.size && !cats.has(a.category)) return false;
+      if (pris.size && !pris.has(a.priority)) return false;
+      if (q && ![a.title, a.description, a.location].some((t) => t.toLowerCase().includes(q))) return false;
+      return true;
+    });
+
+    const ts = (a: AlertModel) => (a.timestamp != null ? new Date(a.timestamp).getTime() || 0 : 0);
+    if (sort === "distance") list.sort((a, b) => distanceOf(a, here) - distanceOf(b, here));
+    else if (sort === "recent") list.sort((a, b) => ts(b) - ts(a));
+    else list.sort((a, b) => (b.expiresAt ?? 0) - (a.expiresAt ?? 0));
+    return list;
+  }, [alerts, cats, pris, query, sort, here, focusId]);
+
+  // 深連結：清單出現該筆後捲過去（每個 id 只捲一次）
+  const scrolledRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!focusId || scrolledRef.current === focusId) return;
+    if (!shown.some((a) => a.id === focusId)) return;
+    scrolledRef.current = focusId;
+    document.getElementById(`alert-${focusId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [focusId, shown]);
+
+  const filtered = cats.size > 0 || pris.size > 0 || query.trim() !== "";
+
+  // 匯出目前看到的（篩選 / 排序後）告警，欄位用原始 AlertLite
+  const exportShown = (format: ExportFormat) => {
+    const byId = new Map(list.map((a) => [a.clusterId, a]));
+    exportAlerts(shown.flatMap((a) => byId.get(a.id) ?? []), format);
+  };
+
   return (
     <main className="alerts-page">
+      {!online && <StaleBanner what="alerts" updatedAt={alertsUpdatedAt() || undefined} />}
+
       <section className="alerts-summary">
         <div className="summary-left">
           <img src={bellOutlineIcon} alt="Alerts" className="summary-icon" />
@@ -236,18 +207,110 @@ export default function AlertsPage() {
         </div>
       </section>
 
-      {alerts.length > 0 && (
+      {/* 篩選列 */}
+      <section className="alerts-filters">
+        <input
+          type="search"
+          className="filter-search"
+          placeholder="Search title, description or location"
+          value={query}
+          onChange={(e) => updateParam("q", e.target.value)}
+          aria-label="Search alerts"
+        />
+
+        <div className="filter-row" role="group" aria-label="Category">
+          {CATEGORIES.map((c) => (
+            <button
+              key={c}
+              type="button"
+              className={`filter-chip ${cats.has(c) ? "active" : ""}`}
+              aria-pressed={cats.has(c)}
+              onClick={() => toggleIn("cat", cats, c, CATEGORIES)}
+            >
+              {CATEGORY_LABELS[c]} <em>{categoryCounts[c]}</em>
+            </button>
+          ))}
+        </div>
+
+        <div className="filter-row" role="group" aria-label="Priority">
+          {PRIORITIES.map((p: Priority) => (
+            <button
+              key={p}
+              type="button"
+              className={`filter-chip ${p.toLowerCase()} ${pris.has(p) ? "active" : ""}`}
+              aria-pressed={pris.has(p)}
+              onClick={() => toggleIn("pri", pris, p, PRIORITIES)}
+            >
+              {p.charAt(0) + p.slice(1).toLowerCase()}
+            </button>
+          ))}
+        </div>
+
+        <div className="filter-row filter-foot">
+          <label>
+            Sort by{" "}
+            <select value={sort} onChange={(e) => updateParam("sort", e.target.value === "remaining" ? "" : e.target.value)}>
+              {SORTS.map((s) => (
+                <option key={s.key} value={s.key} disabled={s.key === "distance" && !here}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Within{" "}
+            <select value={radiusM} onChange={(e) => changeRadius(Number(e.target.value))}>
+              {RADIUS_OPTIONS.map((m) => (
+                <option key={m} value={m}>{formatMeters(m)}</option>
+              ))}
+            </select>
+          </label>
+          {filtered && (
+            <button type="button" className="filter-clear" onClick={clearFilters}>
+              Clear filters
+            </button>
+          )}
+          {shown.length > 0 && (
+            <span className="filter-export">
+              Export {shown.length}:
+              <button type="button" className="filter-clear" onClick={() => exportShown("csv")}>CSV</button>
+              <button type="button" className="filter-clear" onClick={() => exportShown("geojson")}>GeoJSON</button>
+            </span>
+          )}
+        </div>
+      </section>
+
+      {shown.length === 0 && (
+        <section className="alerts-empty">
+          {filtered ? "No alerts match these filters." : "No active alerts in your area right now."}
+          {beyond > 0 && ` ${beyond} more beyond ${formatMeters(radiusM)}.`}
+        </section>
+      )}
+
+      {shown.length > 0 && (
         <section className="alerts-list">
-          {alerts.map((alert, idx) => (
+          {shown.map((alert) => (
             <AlertItem
-              key={idx}
+              key={alert.id}
               {...alert}
-              time={timeFromNow(alert.timestamp ?? Date.now())} // ← 動態時間
+              highlighted={alert.id === focusId}
+              distance={alert.distanceM != null ? formatMeters(alert.distanceM) : undefined}
+              time={
+                alert.timestamp != null
+                  ? timeFromNow(alert.timestamp) // ← 動態時間
+                  : `Expires ${timeFromNow((alert.expiresAt ?? now) * 1000)}`
+              }
             />
           ))}
         </section>
       )}
 
+      {shown.length > 0 && beyond > 0 && (
+        <p className="alerts-beyond">
+          {beyond} more alert{beyond > 1 ? "s" : ""} beyond {formatMeters(radiusM)} (see the map).
+        </p>
+      )}
+
       <section className="alerts-categories">
         <h3>Alert Categories</h3>
         <div className="category-list">
@@ -1,5 +1,40 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import "./DataInsights.css";
+import { Autocomplete, Button, ButtonGroup, TextField } from "@mui/material";
+import dayjs from "dayjs";
+import { LocalizationProvider } from "@mui/x-date-pickers/LocalizationProvider";
+import { AdapterDayjs } from "@mui/x-date-pickers/AdapterDayjs";
+import { DatePicker } from "@mui/x-date-pickers/DatePicker";
+import MapView from "../components/MapView";
+import HotspotLayer from "../components/HotspotLayer";
+import { HourDayHeatmap, MonthlyTrend, SeverityDistribution, TypeBreakdown } from "../components/InsightCharts";
+import {
+  areasOf,
+  defaultRange,
+  fetchInsights,
+  filterByAreas,
+  formatRange,
+  headline,
+  hourDayMatrix,
+  monthlyTrend,
+  riskByTime,
+  severityDistribution,
+  startOfDay,
+  summaryLink,
+  typeBreakdown,
+  type DateRange,
+  type Headline,
+  type InsightsData,
+  type Trend,
+  UNKNOWN_AREA,
+} from "../lib/insights";
+import type { IncidentSeverity } from "../lib/incidents";
+import { computeHotspots, hotspotsNear, type Hotspot } from "../lib/hotspots";
+import { exportIncidents } from "../lib/dataExport";
+import { formatMeters } from "../lib/geo";
+import { useRisk } from "../services/riskService";
+import type { TimeBucket } from "../lib/timeOfDay";
 
 // 匯入 trend icons
 import trendUp from "../assets/trend-up-svgrepo-com.svg";
@@ -13,59 +48,163 @@ import usersIcon from "../assets/users.svg";            // Behavioral Patterns
 import seasonIcon from "../assets/season.svg";          // Seasonal Risk Patterns
 import takeawayIcon from "../assets/trend-svgrepo-com.svg"; // Key Takeaways
 
-interface RiskByTime {
-  time: string;
-  level: string;
-  incidents: number;
+interface Stats {
+  headline: Headline;
+  riskByTime: TimeBucket[];
+  hotspots: Hotspot[];
+  hourDay: number[][];
+  types: ReturnType<typeof typeBreakdown>;
+  monthly: ReturnType<typeof monthlyTrend>;
+  severity: Record<IncidentSeverity, number>;
+  count: number;
+  range: DateRange;
+  source: string;
+}
+
+const signed = (n: number) => `${n > 0 ? "+" : ""}${n}%`;
+
+const DAY_MS = 24 * 3600_000;
+const NEAR_RADIUS_M = 5000;         // 「附近」熱點的範圍
+const FIT_TOP = 10;                 // 地圖縮放到包住前幾名熱點
+
+// 快速期間（天數）
+const PRESETS = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "12 months", days: 365 },
+];
+
+/** 每個區塊下方的期間 + 資料來源 */
+function SectionMeta({ stats, note }: { stats?: Stats; note?: string }) {
+  return (
+    <p className="section-meta">
+      {stats ? `${formatRange(stats.range)} · Source: ${stats.source} (${stats.count} reports)` : note}
+    </p>
+  );
 }
 
-interface HighRiskArea {
-  area: string;
-  incidents: number;
-  infrastructure: string;
-  trend: "up" | "down" | "flat";
+function toStats(data: InsightsData): Stats {
+  return {
+    headline: headline(data),
+    riskByTime: riskByTime(data),
+    hotspots: computeHotspots(data.records, data.previous),
+    hourDay: hourDayMatrix(data.records),
+    types: typeBreakdown(data.records),
+    monthly: monthlyTrend(data.records, data.range),
+    severity: severityDistribution(data.records),
+    count: data.records.length,
+    range: data.range,
+    source: data.source,
+  };
 }
 
-interface Stats {
-  incidentsAgeGroup: number;
-  holidayRisk: number;
-  bikePathReduction: number;
-  overconfidenceFactor: number;
-  riskByTime: RiskByTime[];
-  highRiskAreas: HighRiskArea[];
+/** 期間（DatePicker + 快速選項）與 LGA 篩選 */
+function InsightsFilters({
+  range,
+  onRange,
+  areaOptions,
+  areas,
+  onAreas,
+}: {
+  range: DateRange;
+  onRange: (r: DateRange) => void;
+  areaOptions: { area: string; count: number }[];
+  areas: string[];
+  onAreas: (a: string[]) => void;
+}) {
+  const today = dayjs();
+  const preset = PRESETS.find((p) => startOfDay(range.to) === startOfDay(Date.now()) && range.from === startOfDay(Date.now() - (p.days - 1) * DAY_MS));
+  const counts = new Map(areaOptions.map((a) => [a.area, a.count]));
+  const fieldSx = { backgroundColor: "#fff", borderRadius: "6px", "& fieldset": { borderColor: "#ddd" } };
+
+  return (
+    <section className="insights-filters">
+      <LocalizationProvider dateAdapter={AdapterDayjs}>
+        <DatePicker
+          label="From"
+          value={dayjs(range.from)}
+          maxDate={dayjs(range.to)}
+          onChange={(v) => v?.isValid() && onRange({ from: v.startOf("day").valueOf(), to: range.to })}
+          slotProps={{ textField: { size: "small", sx: fieldSx } }}
+        />
+        <DatePicker
+          label="To"
+          value={dayjs(range.to)}
+          minDate={dayjs(range.from)}
+          maxDate={today}
+          onChange={(v) => v?.isValid() && onRange({ from: range.from, to: v.isSame(today, "day") ? Date.now() : v.endOf("day").valueOf() })}
+          slotProps={{ textField: { size: "small", sx: fieldSx } }}
+        />
+      </LocalizationProvider>
+      <ButtonGroup size="small" aria-label="Quick date ranges">
+        {PRESETS.map((p) => (
+          <Button
+            key={p.days}
+            variant={preset === p ? "contained" : "outlined"}
+            onClick={() => onRange({ from: startOfDay(Date.now() - (p.days - 1) * DAY_MS), to: Date.now() })}
+          >
+            {p.label}
+          </Button>
+        ))}
+      </ButtonGroup>
+      <Autocomplete
+        multiple
+        size="small"
+        className="insights-areas"
+        options={areaOptions.map((a) => a.area)}
+        value={areas}
+        onChange={(_, v) => onAreas(v)}
+        getOptionLabel={(a) => (counts.has(a) ? `${a} (${counts.get(a)})` : a)}
+        renderInput={(params) => <TextField {...params} label="Areas (LGA)" placeholder={areas.length ? "" : "All areas"} sx={fieldSx} />}
+      />
+    </section>
+  );
 }
 
 export default function DataInsights() {
-  const [stats, setStats] = useState<Stats | null>(null);
+  const [range, setRange] = useState<DateRange>(() => defaultRange());
+  const [data, setData] = useState<InsightsData | null>(null);
+  const [areas, setAreas] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [showHeat, setShowHeat] = useState(true);
+  const { coords, source } = useRisk();
+
+  // 所有區塊都用同一份篩選後的資料，一起重算
+  const filtered = useMemo(() => (data ? filterByAreas(data, areas) : null), [data, areas]);
+  const stats = useMemo(() => (filtered ? toStats(filtered) : null), [filtered]);
+  const areaOptions = useMemo(() => (data ? areasOf(data) : []), [data]);
+  const nearby = useMemo(() => (stats ? hotspotsNear(stats.hotspots, coords, NEAR_RADIUS_M) : []), [stats, coords]);
+  // 篩選改變才重新縮放（位置更新不跳動）
+  const fit = useMemo(
+    () => (stats?.hotspots.length ? stats.hotspots.slice(0, FIT_TOP) : undefined),
+    [stats]
+  );
 
   useEffect(() => {
-    // 模擬假資料
-    setStats({
-      incidentsAgeGroup: 23,
-      holidayRisk: 40,
-      bikePathReduction: 75,
-      overconfidenceFactor: 35,
-      riskByTime: [
-        { time: "6–8 AM", level: "Low", incidents: 12 },
-        { time: "8–10 AM", level: "High", incidents: 45 },
-        { time: "10 AM–3 PM", level: "Low", incidents: 8 },
-        { time: "3–6 PM", level: "Medium", incidents: 32 },
-        { time: "6–8 PM", level: "High", incidents: 38 },
-        { time: "8 PM+", level: "Medium", incidents: 18 },
-      ],
-      highRiskAreas: [
-        { area: "Melbourne CBD", incidents: 156, infrastructure: "Mixed", trend: "up" },
-        { area: "St Kilda Road", incidents: 89, infrastructure: "Poor", trend: "up" },
-        { area: "Capital City Trail", incidents: 23, infrastructure: "Excellent", trend: "down" },
-        { area: "Swanston Street", incidents: 67, infrastructure: "Good", trend: "flat" },
-        { area: "Collins Street", incidents: 45, infrastructure: "Fair", trend: "flat" },
-      ],
-    });
-  }, []);
+    const ac = new AbortController();
+    setError(null);
+    fetchInsights(range, ac.signal)
+      .then(setData)
+      .catch((e: Error) => {
+        if (e.name === "AbortError") return;
+        console.error("load insights failed", e);
+        setError(e.message || "Failed to load insights");
+      });
+    return () => ac.abort();
+  }, [range]);
 
+  if (error) {
+    return (
+      <main className="insights-page">
+        <h2>Cycling Safety Insights</h2>
+        <InsightsFilters range={range} onRange={setRange} areaOptions={areaOptions} areas={areas} onAreas={setAreas} />
+        <p className="insights-error" role="alert">Insights are unavailable right now: {error}</p>
+      </main>
+    );
+  }
   if (!stats) return <p>Loading insights...</p>;
 
-  const getTrendIcon = (trend: "up" | "down" | "flat") => {
+  const getTrendIcon = (trend: Trend) => {
     if (trend === "up") return trendUp;
     if (trend === "down") return trendDown;
     return trendFlat;
@@ -89,34 +228,47 @@ export default function DataInsights() {
     </svg>
   );
 
+  const h = stats.headline;
+
   return (
     <main className="insights-page">
       <h2>Cycling Safety Insights</h2>
       <p>Data-driven insights for Melbourne cyclists aged 30–39</p>
 
+      <InsightsFilters range={range} onRange={setRange} areaOptions={areaOptions} areas={areas} onAreas={setAreas} />
+      {filtered && (
+        <div className="insights-actions">
+          <span>Export {filtered.records.length} reports:</span>
+          <button type="button" onClick={() => exportIncidents(filtered.records, "csv", filtered.range, areas)}>CSV</button>
+          <button type="button" onClick={() => exportIncidents(filtered.records, "geojson", filtered.range, areas)}>GeoJSON</button>
+          <Link to={summaryLink(filtered.range, areas)}>Printable summary</Link>
+        </div>
+      )}
+
       {/* ===== Top Stats ===== */}
       <section className="stats-grid">
         <div className="stat-card red">
-          <h3>{stats.incidentsAgeGroup}%</h3>
-          <p>of cycling incidents</p>
-          <small>30–39 age group</small>
+          <h3>{h.peakShare}%</h3>
+          <p>of incidents</p>
+          <small>in peak hours (8–10 AM, 5–7 PM)</small>
         </div>
         <div className="stat-card orange">
-          <h3>{stats.holidayRisk}%</h3>
-          <p>higher risk</p>
-          <small>during holidays</small>
+          <h3>{signed(h.weekendLift)}</h3>
+          <p>incidents per day</p>
+          <small>on weekends vs weekdays</small>
         </div>
         <div className="stat-card green">
-          <h3>{stats.bikePathReduction}%</h3>
-          <p>risk reduction</p>
-          <small>with bike paths</small>
+          <h3>{h.changePct == null ? "—" : signed(h.changePct)}</h3>
+          <p>reports</p>
+          <small>vs the previous period</small>
         </div>
         <div className="stat-card purple">
-          <h3>{stats.overconfidenceFactor}%</h3>
-          <p>overconfidence</p>
-          <small>risk factor</small>
+          <h3>{h.severeShare}%</h3>
+          <p>high severity</p>
+          <small>high or critical reports</small>
         </div>
       </section>
+      <SectionMeta stats={stats} />
 
       {/* ===== Risk by Time ===== */}
       <section className="insight-section risk-time">
@@ -133,28 +285,94 @@ export default function DataInsights() {
             </li>
           ))}
         </ul>
+        <SectionMeta stats={stats} />
+      </section>
+
+      {/* ===== Hour × Day ===== */}
+      <section className="insight-section">
+        <h3>
+          <img src={clockIcon} alt="clock" className="section-icon" />
+          When Incidents Happen
+        </h3>
+        <HourDayHeatmap matrix={stats.hourDay} />
+        <SectionMeta stats={stats} />
       </section>
 
-      {/* ===== High-Risk Areas ===== */}
+      {/* ===== Hotspots ===== */}
       <section className="insight-section high-risk">
         <h3>
           <img src={pinIcon} alt="pin" className="section-icon" />
-          High-Risk Areas
+          Incident Hotspots
         </h3>
-        <ul>
-          {stats.highRiskAreas.map((area, i) => (
-            <li key={i}>
-              <span className="area-label">
-                {area.area}
-                <img src={getTrendIcon(area.trend)} alt={area.trend} className="trend-icon" />
-              </span>
-              <span className={`infra-badge ${area.infrastructure.toLowerCase()}`}>
-                {area.infrastructure} infrastructure
-              </span>
-              <span className="incidents">{area.incidents} incidents/year</span>
-            </li>
-          ))}
-        </ul>
+        <label className="heat-toggle">
+          <input type="checkbox" checked={showHeat} onChange={(e) => setShowHeat(e.target.checked)} />
+          Show heat layer
+        </label>
+        <div className="hotspot-map">
+          <MapView center={coords} zoom={13} rider={coords} follow={false} fit={fit}>
+            {showHeat && <HotspotLayer spots={stats.hotspots} />}
+          </MapView>
+        </div>
+
+        <h4>Top hotspots near you</h4>
+        {nearby.length === 0 ? (
+          <p className="section-meta">No hotspots within {formatMeters(NEAR_RADIUS_M)} of {source === "gps" ? "you" : "your location"} in this period.</p>
+        ) : (
+          <ul>
+            {nearby.map((s) => (
+              <li key={s.id}>
+                <span className="area-label">
+                  {s.rank}. {s.lga ?? UNKNOWN_AREA}
+                  <img
+                    src={getTrendIcon(s.trend)}
+                    alt={s.trend}
+                    title={s.changePct == null ? "New this period" : `${signed(s.changePct)} vs previous period`}
+                    className="trend-icon"
+                  />
+                </span>
+                <span className="infra-badge type">Mostly {s.topType}</span>
+                <span className="incidents">
+                  {s.count} report{s.count === 1 ? "" : "s"}
+                  {s.severe ? ` (${s.severe} severe)` : ""} · {formatMeters(s.distanceM)} away
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <SectionMeta stats={stats} />
+      </section>
+
+      {/* ===== Incident Types / Severity ===== */}
+      <section className="insight-section">
+        <h3>
+          <img src={pinIcon} alt="pin" className="section-icon" />
+          Incident Types
+        </h3>
+        {stats.types.length === 0 ? (
+          <p className="section-meta">No incidents were reported in this period.</p>
+        ) : (
+          <TypeBreakdown items={stats.types} />
+        )}
+        <SectionMeta stats={stats} />
+      </section>
+
+      <section className="insight-section">
+        <h3>
+          <img src={takeawayIcon} alt="severity" className="section-icon" />
+          Severity
+        </h3>
+        <SeverityDistribution counts={stats.severity} />
+        <SectionMeta stats={stats} />
+      </section>
+
+      {/* ===== Monthly Trend ===== */}
+      <section className="insight-section">
+        <h3>
+          <img src={takeawayIcon} alt="trend" className="section-icon" />
+          Monthly Trend
+        </h3>
+        <MonthlyTrend points={stats.monthly} />
+        <SectionMeta stats={stats} />
       </section>
 
       {/* ===== Behavioral Patterns ===== */}
@@ -198,6 +416,7 @@ export default function DataInsights() {
             <span className="impact high">High Impact</span>
           </li>
         </ul>
+        <SectionMeta note="General guidance · not calculated from CycSafe reports" />
       </section>
 
       {/* ===== Seasonal Risk Patterns ===== */}
@@ -228,6 +447,7 @@ export default function DataInsights() {
             <small>Weather transitions</small>
           </div>
         </div>
+        <SectionMeta note="General guidance · not calculated from CycSafe reports" />
       </section>
 
       {/* ===== Key Takeaways ===== */}
@@ -0,0 +1,159 @@
+// src/pages/InsightsSummaryPage.tsx
+// 可列印摘要（/insights/summary?from=&to=&lga=…）：選定 LGA + 期間的事故統計，給議會用；用瀏覽器「列印 → 另存 PDF」
+import "./InsightsSummaryPage.css";
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { HourDayHeatmap, MonthlyTrend, SeverityDistribution, TypeBreakdown } from "../components/InsightCharts";
+
+import { computeHotspots } from "../lib/hotspots";
+import { getIncidentTypeLabel } from "../lib/incidentTypes";
+import {
+  fetchInsights,
+  filterByAreas,
+  formatRange,
+  headline,
+  hourDayMatrix,
+  monthlyTrend,
+  readSummaryParams,
+  severityDistribution,
+  typeBreakdown,
+  UNKNOWN_AREA,
+  type InsightsData,
+} from "../lib/insights";
+
+const TOP_HOTSPOTS = 10;
+
+const signed = (n: number) => `${n > 0 ? "+" : ""}${n}%`;
+
+export default function InsightsSummaryPage() {
+  const [params] = useSearchParams();
+  const paramKey = params.toString();
+  // 同一組網址參數只解析一次（range 物件要穩定，才不會一直重抓）
+  const { range, areas } = useMemo(() => readSummaryParams(new URLSearchParams(paramKey)), [paramKey]);
+
+  const [data, setData] = useState<InsightsData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const ac = new AbortController();
+    setError(null);
+    fetchInsights(range, ac.signal)
+      .then((d) => setData(filterByAreas(d, areas)))
+      .catch((e: Error) => {
+        if (e.name === "AbortError") return;
+        console.error("load insights summary failed", e);
+        setError(e.message || "Failed to load insights");
+      });
+    return () => ac.abort();
+  }, [range, areas]);
+
+  const title = areas.length ? areas.join(", ") : "All areas";
+
+  if (error || !data) {
+    return (
+      <main className="summary-page">
+        <Link to="/insights" className="summary-back no-print">← Back to insights</Link>
+        {error ? <p className="summary-error" role="alert">Summary is unavailable right now: {error}</p> : <p>Loading summary…</p>}
+      </main>
+    );
+  }
+
+  const h = headline(data);
+  const hotspots = computeHotspots(data.records, data.previous).slice(0, TOP_HOTSPOTS);
+  const records = [...data.records].sort((a, b) => b.at - a.at);
+
+  return (
+    <main className="summary-page">
+      <div className="summary-toolbar no-print">
+        <Link to="/insights" className="summary-back">← Back to insights</Link>
+        <button type="button" onClick={() => window.print()}>Print / Save as PDF</button>
+      </div>
+
+      <header className="summary-head">
+        <h1>Cycling Incident Summary: {title}</h1>
+        <p>
+          {formatRange(data.range)} · {data.records.length} reports · Source: {data.source}
+        </p>
+        <p className="summary-generated">Generated by CycSafe on {new Date().toLocaleString()}</p>
+      </header>
+
+      <section className="summary-stats">
+        <div><strong>{data.records.length}</strong><span>reports</span></div>
+        <div><strong>{h.changePct == null ? "—" : signed(h.changePct)}</strong><span>vs previous period</span></div>
+        <div><strong>{h.severeShare}%</strong><span>high or critical</span></div>
+        <div><strong>{h.peakShare}%</strong><span>in peak hours</span></div>
+      </section>
+
+      <section className="summary-section">
+        <h2>Severity</h2>
+        <SeverityDistribution counts={severityDistribution(data.records)} />
+      </section>
+
+      <section className="summary-section">
+        <h2>Incident types</h2>
+        <TypeBreakdown items={typeBreakdown(data.records)} />
+      </section>
+
+      <section className="summary-section">
+        <h2>Reports per month</h2>
+        <MonthlyTrend points={monthlyTrend(data.records, data.range)} />
+      </section>
+
+      <section className="summary-section">
+        <h2>When incidents happen</h2>
+        <HourDayHeatmap matrix={hourDayMatrix(data.records)} />
+      </section>
+
+      <section className="summary-section">
+        <h2>Top hotspots</h2>
+        {hotspots.length === 0 ? (
+          <p>No reports with a location in this period.</p>
+        ) : (
+          <table className="summary-table">
+            <thead>
+              <tr><th>#</th><th>Area</th><th>Location</th><th>Reports</th><th>Severe</th><th>Most common</th><th>Trend</th></tr>
+            </thead>
+            <tbody>
+              {hotspots.map((s, i) => (
+                <tr key={s.id}>
+                  <td>{i + 1}</td>
+                  <td>{s.lga ?? UNKNOWN_AREA}</td>
+                  <td>{s.lat.toFixed(5)}, {s.lon.toFixed(5)}</td>
+                  <td>{s.count}</td>
+                  <td>{s.severe}</td>
+                  <td>{s.topType}</td>
+                  <td>{s.changePct == null ? "New" : signed(s.changePct)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="summary-section summary-break">
+        <h2>All reports ({records.length})</h2>
+        <table className="summary-table">
+          <thead>
+            <tr><th>Date</th><th>Type</th><th>Severity</th><th>LGA</th><th>Description</th><th>Photos</th></tr>
+          </thead>
+          <tbody>
+            {records.map((r) => (
+              <tr key={r.id}>
+                <td>{new Date(r.at).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}</td>
+                <td>{r.typeDesc ?? getIncidentTypeLabel(r.type)}</td>
+                <td className={`sev ${r.severity}`}>{r.severity}</td>
+                <td>{r.lga ?? "—"}</td>
+                <td>{r.description ?? ""}</td>
+                <td>
+                  {r.photos.map((url, i) => (
+                    <a key={url} href={url} target="_blank" rel="noreferrer">Photo {i + 1}</a>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </main>
+  );
+}
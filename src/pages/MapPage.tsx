@@ -0,0 +1,88 @@
+// src/pages/MapPage.tsx
+import { useEffect, useMemo, useState } from "react";
+import "./MapPage.css";
+import { Circle } from "react-leaflet";
+import MapView from "../components/MapView";
+import AlertMarkers from "../components/AlertMarkers";
+import type { AlertLite } from "../lib/alerts";
+import { emit, load, on } from "../lib/bus";
+import type { LatLon } from "../lib/geo";
+import { INCIDENT_TYPES } from "../lib/incidentTypes";
+import { useSettings } from "../lib/settings";
+
+export default function MapPage() {
+  const [rider, setRider] = useState<LatLon | null>(() => load("coords") ?? null);
+  const [alerts, setAlerts] = useState<AlertLite[]>(() => load("alerts.list", []));
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const { alertRadiusM, fallbackLocation } = useSettings();
+
+  useEffect(() => {
+    const unsubs = [
+      on("coords", setRider),                                  // 騎士位置（riskService）
+      on("alerts:list", ({ list }) => setAlerts(list)),        // 合併後的告警清單（alertsService）
+    ];
+
+    // 進頁面時請 alertsService 立刻更新一次
+    emit("alerts:maybeChanged");
+
+    // 倒數每秒更新
+    const tick = window.setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+
+    return () => {
+      unsubs.forEach((off) => off());
+      window.clearInterval(tick);
+    };
+  }, []);
+
+  // 每秒的 now 只給倒數用；過期數變了（或清單換了）才重新篩，標記清單才穩定
+  const expired = alerts.filter(a => a.expiresAt <= now).length;
+  const active = useMemo(
+    () => alerts.filter(a => a.expiresAt > now),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [alerts, expired]
+  );
+
+  return (
+    <main className="map-page">
+      <section className="map-head">
+        <h2>Hazard Map</h2>
+        <span className="map-count">{active.length} active alerts</span>
+      </section>
+
+      <section className="map-frame">
+        <MapView center={rider ?? fallbackLocation} rider={rider}>
+          {/* 告警半徑（範圍外的仍顯示在地圖上，但不計入鈴鐺） */}
+          {rider && (
+            <Circle
+              center={[rider.lat, rider.lon]}
+              radius={alertRadiusM}
+              pathOptions={{ color: "#2563eb", weight: 1, fillOpacity: 0.05, dashArray: "4 4" }}
+            />
+          )}
+          <AlertMarkers alerts={active} now={now} />
+        </MapView>
+      </section>
+
+      {/* 圖例：顏色 = 類型，外框 = 嚴重度 */}
+      <section className="map-legend">
+        <div className="legend-group">
+          {INCIDENT_TYPES.map(t => (
+            <span key={t.code} className="legend-item">
+              <i className="legend-dot" style={{ background: t.color }} />
+              {t.label}
+            </span>
+          ))}
+          <span className="legend-item">
+            <i className="legend-dot" style={{ background: "#0ea5e9" }} />
+            Weather
+          </span>
+        </div>
+        <div className="legend-group">
+          <span className="legend-item"><i className="legend-ring sev-high" />High</span>
+          <span className="legend-item"><i className="legend-ring sev-medium" />Medium</span>
+          <span className="legend-item"><i className="legend-ring sev-low" />Low</span>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,215 @@
+// src/pages/PlacesPage.tsx
+// 常用地點 + 通勤清單：每一項顯示目前風險（風險 Lambda）與附近 / 沿線的告警
+import "./PlacesPage.css";
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import type { AlertLite } from "../lib/alerts";
+import { load, on } from "../lib/bus";
+import {
+  addCommute,
+  alertsNearPlace,
+  alertsOnCommute,
+  commuteSamples,
+  planRouteLink,
+  removeCommute,
+  useCommutes,
+  CORRIDOR_M,
+} from "../lib/commutes";
+import { formatMeters, type LatLon } from "../lib/geo";
+import { geocode } from "../lib/geocode";
+import { removePlace, savePlace, usePlaces } from "../lib/places";
+import { maxRisk, placeKey, usePlaceRisks, type PlaceRisk } from "../lib/placeRisk";
+import { riskLabel } from "../lib/risk";
+import { useSettings } from "../lib/settings";
+
+const alertsText = (n: number, where: string) => `${n} alert${n === 1 ? "" : "s"} ${where}`;
+
+/** 風險標籤（還沒結果顯示 …，失敗顯示 —） */
+function RiskBadge({ score, state }: { score?: number; state?: PlaceRisk }) {
+  const settings = useSettings();
+  if (score == null) {
+    return <span className="places-risk unknown">{state?.error ? "—" : "…"}</span>;
+  }
+  const label = riskLabel(score, settings);
+  return <span className={`places-risk ${label.toLowerCase()}`}>{label[0] + label.slice(1).toLowerCase()} risk</span>;
+}
+
+export default function PlacesPage() {
+  const places = usePlaces();
+  const commutes = useCommutes();
+  const [alerts, setAlerts] = useState<AlertLite[]>(() => load("alerts.list", []));
+  useEffect(() => on("alerts:list", ({ list }) => setAlerts(list)), []);
+
+  // 所有要查風險的點：地點 + 每段通勤的取樣點
+  const points: LatLon[] = [...places, ...commutes.flatMap(commuteSamples)];
+  const risks = usePlaceRisks(points);
+  const riskAt = (p: LatLon) => risks[placeKey(p)];
+
+  // 新增地點
+  const [placeName, setPlaceName] = useState("");
+  const [placeQuery, setPlaceQuery] = useState("");
+  const [placeStatus, setPlaceStatus] = useState<"idle" | "loading" | "error">("idle");
+  const [placeError, setPlaceError] = useState("");
+
+  // 新增通勤
+  const [commuteName, setCommuteName] = useState("");
+  const [fromName, setFromName] = useState("");
+  const [toName, setToName] = useState("");
+  const [commuteError, setCommuteError] = useState("");
+
+  const onAddPlace = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = placeName.trim();
+    const q = placeQuery.trim();
+    if (!name || !q) return;
+    setPlaceStatus("loading");
+    setPlaceError("");
+    try {
+      const hit = await geocode(q);
+      if (!hit) throw new Error(`Couldn't find "${q}"`);
+      savePlace({ name, lat: hit.lat, lon: hit.lon, label: hit.label });
+      setPlaceName("");
+      setPlaceQuery("");
+      setPlaceStatus("idle");
+    } catch (err) {
+      setPlaceStatus("error");
+      setPlaceError((err as Error).message || "Search failed");
+    }
+  };
+
+  const onAddCommute = (e: React.FormEvent) => {
+    e.preventDefault();
+    const from = places.find((p) => p.name === fromName);
+    const to = places.find((p) => p.name === toName);
+    if (!from || !to) {
+      setCommuteError("Choose where the commute starts and ends.");
+      return;
+    }
+    if (from.name === to.name) {
+      setCommuteError("Start and end must be different places.");
+      return;
+    }
+    setCommuteError("");
+    addCommute({
+      name: commuteName.trim() || `${from.name} → ${to.name}`,
+      from: { lat: from.lat, lon: from.lon, label: from.label },
+      to: { lat: to.lat, lon: to.lon, label: to.label },
+    });
+    setCommuteName("");
+  };
+
+  return (
+    <main className="places-page">
+      <h2>Places &amp; commutes</h2>
+
+      {/* 通勤 */}
+      <section className="places-card">
+        <h3>Commutes</h3>
+        <p className="places-hint">
+          Alerts within {formatMeters(CORRIDOR_M)} of the straight line between both ends count as on route.
+        </p>
+
+        {commutes.length === 0 && <p className="places-empty">No commutes saved yet.</p>}
+        <ul className="places-list">
+          {commutes.map((c) => {
+            const samples = commuteSamples(c);
+            const onRoute = alertsOnCommute(alerts, c).length;
+            return (
+              <li key={c.id} className="places-item">
+                <div className="places-item-main">
+                  <strong>{c.name}</strong>
+                  <span className="places-sub">{c.from.label} → {c.to.label}</span>
+                  <span className="places-meta">
+                    <RiskBadge score={maxRisk(risks, samples)} state={riskAt(samples[0])} />
+                    <span className={onRoute ? "orange" : "success"}>{alertsText(onRoute, "on route")}</span>
+                  </span>
+                </div>
+                <div className="places-actions">
+                  <Link to={planRouteLink(c)} className="places-btn">Plan route</Link>
+                  <button type="button" className="places-btn outline" onClick={() => removeCommute(c.id)}>
+                    Remove
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {places.length < 2 ? (
+          <p className="places-hint">Save at least two places below to add a commute.</p>
+        ) : (
+          <form className="places-form" onSubmit={onAddCommute}>
+            <input
+              type="text"
+              placeholder="Name (optional)"
+              value={commuteName}
+              onChange={(e) => setCommuteName(e.target.value)}
+            />
+            <select value={fromName} onChange={(e) => setFromName(e.target.value)} aria-label="From">
+              <option value="">From…</option>
+              {places.map((p) => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </select>
+            <select value={toName} onChange={(e) => setToName(e.target.value)} aria-label="To">
+              <option value="">To…</option>
+              {places.map((p) => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </select>
+            <button type="submit" className="places-btn">Add commute</button>
+            {commuteError && <p className="places-error">{commuteError}</p>}
+          </form>
+        )}
+      </section>
+
+      {/* 常用地點 */}
+      <section className="places-card">
+        <h3>Saved places</h3>
+        {places.length === 0 && <p className="places-empty">No places saved yet.</p>}
+        <ul className="places-list">
+          {places.map((p) => {
+            const nearby = alertsNearPlace(alerts, p).length;
+            const state = riskAt(p);
+            return (
+              <li key={p.name} className="places-item">
+                <div className="places-item-main">
+                  <strong>{p.name}</strong>
+                  <span className="places-sub">{p.label}</span>
+                  <span className="places-meta">
+                    <RiskBadge score={state?.data?.risk} state={state} />
+                    <span className={nearby ? "orange" : "success"}>{alertsText(nearby, "nearby")}</span>
+                  </span>
+                </div>
+                <div className="places-actions">
+                  <button type="button" className="places-btn outline" onClick={() => removePlace(p.name)}>
+                    Remove
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <form className="places-form" onSubmit={onAddPlace}>
+          <input
+            type="text"
+            placeholder="Name, e.g. Home"
+            value={placeName}
+            onChange={(e) => setPlaceName(e.target.value)}
+          />
+          <input
+            type="text"
+            placeholder="Address or lat, lon"
+            value={placeQuery}
+            onChange={(e) => setPlaceQuery(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="places-btn"
+            disabled={placeStatus === "loading" || !placeName.trim() || !placeQuery.trim()}
+          >
+            {placeStatus === "loading" ? "Searching…" : "Save place"}
+          </button>
+          {placeStatus === "error" && <p className="places-error">{placeError}</p>}
+        </form>
+      </section>
+    </main>
+  );
+}
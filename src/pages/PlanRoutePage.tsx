@@ -1,51 +1,28 @@
 import "./PlanRoutePage.css";
-import { useState, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 
 // 匯入 SVG
 import PinIcon from "../assets/pin.svg";
 import ClockIcon from "../assets/clock.svg";
 import RouteIcon from "../assets/route.svg"; // infra 用
+import DeparturePlanner from "../components/DeparturePlanner";
+import TrackImportCard from "../components/TrackImportCard";
 
-// ✅ 預留資料結構 (mock data，未來可換成 API response)
-const mockRoutes = [
-  {
-    id: 1,
-    name: "Capital City Trail",
-    distance: "8.2 km",
-    time: "25 mins",
-    infra: "Dedicated bike path",
-    safety: "high",
-    risk: "low",
-    highlights: ["Separated from traffic", "Well-lit", "CCTV coverage"],
-    warnings: [],
-  },
-  {
-    id: 2,
-    name: "Swanston Street Route",
-    distance: "6.8 km",
-    time: "20 mins",
-    infra: "Bike lanes",
-    safety: "medium",
-    risk: "medium",
-    highlights: ["Protected bike lanes", "Traffic signals"],
-    warnings: ["Heavy traffic during peak hours", "Road works on Collins St"],
-  },
-  {
-    id: 3,
-    name: "St Kilda Road",
-    distance: "7.5 km",
-    time: "22 mins",
-    infra: "Shared road",
-    safety: "low",
-    risk: "high",
-    highlights: ["Direct route"],
-    warnings: [
-      "No dedicated cycling infrastructure",
-      "High traffic volume",
-      "Limited visibility at intersections",
-    ],
-  },
-];
+import type { AlertLite } from "../lib/alerts";
+import { load, on } from "../lib/bus";
+import { isSameRoute, selectRoute, useActiveRoute } from "../lib/activeRoute";
+import { planRouteLink, readRoutePrefill, type CommuteEnd } from "../lib/commutes";
+import { geocode, type GeoPoint } from "../lib/geocode";
+import { getPlaceRisk } from "../lib/placeRisk";
+import { scoreRoute } from "../lib/routeRisk";
+import type { RiskWeather } from "../lib/weatherAlerts";
+import {
+  fetchRoutes,
+  formatDistance,
+  formatDuration,
+  type RouteCandidate,
+} from "../lib/routes";
 
 // ✅ Tips 區塊也抽成陣列
 const tips = [
@@ -55,19 +32,110 @@ const tips = [
   "Check for road works and closures before departing",
 ];
 
+type Status = "idle" | "loading" | "done" | "error";
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
 export default function PlanRoutePage() {
-  const [routes, setRoutes] = useState(mockRoutes);
+  const [params] = useSearchParams();
+  // 從網址帶入的起訖點：文字沒改就直接用座標、不再地理編碼
+  const [prefill] = useState(() => ({ from: readRoutePrefill(params, "from"), to: readRoutePrefill(params, "to") }));
+  const [from, setFrom] = useState(prefill.from.text);
+  const [to, setTo] = useState(prefill.to.text);
+  const [routes, setRoutes] = useState<RouteCandidate[]>([]);
+  const [status, setStatus] = useState<Status>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [alerts, setAlerts] = useState<AlertLite[]>(() => load("alerts.list", []));
+  const [weather, setWeather] = useState<RiskWeather | undefined>();
+  const [plannerFor, setPlannerFor] = useState<string | null>(null); // 展開出發時間規劃的路線 id
+  const [ends, setEnds] = useState<{ from: CommuteEnd; to: CommuteEnd } | null>(null); // 這次查詢的起訖點
+  const active = useActiveRoute();
+  const navigate = useNavigate();
 
-  // ✅ 預留 API 更新 (模擬 fetch)
+  // 告警清單更新時，路線分數跟著重算
+  useEffect(() => on("alerts:list", ({ list }) => setAlerts(list)), []);
+
+  // 安全 / 風險等級與警示都由沿線告警 + 天氣算出（不用 API 給的固定字樣）
+  const scored = useMemo(
+    () => routes.map((r) => ({ ...r, ...scoreRoute(r.path, alerts, weather) })),
+    [routes, alerts, weather]
+  );
+
+  // 新查詢會取消上一個還沒回來的查詢
+  const inflightRef = useRef<AbortController | null>(null);
+  useEffect(() => () => inflightRef.current?.abort(), []);
+
+  // 從通勤清單帶入起訖點：直接查一次
   useEffect(() => {
-    // TODO: 之後可換成 fetch("/api/routes") 串接後端
-    // fetch("/api/routes").then(res => res.json()).then(data => setRoutes(data));
+    if (prefill.to.text) void findRoutes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  /** 起點：有填就地理編碼；留空就用目前位置 */
+  const resolveFrom = async (signal: AbortSignal): Promise<GeoPoint | null> => {
+    if (!from.trim()) return load("coords") ?? null; // 目前位置（riskService 存的）
+    if (prefill.from.at && from === prefill.from.text) return prefill.from.at;
+    return geocode(from, signal);
+  };
+
+  const resolveTo = async (signal: AbortSignal): Promise<GeoPoint | null> => {
+    if (prefill.to.at && to === prefill.to.text) return prefill.to.at;
+    return geocode(to, signal);
+  };
+
+  const findRoutes = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!to.trim()) {
+      setError("Please enter a destination.");
+      setStatus("error");
+      return;
+    }
+
+    inflightRef.current?.abort();
+    const ac = new AbortController();
+    inflightRef.current = ac;
+
+    setStatus("loading");
+    setError(null);
+    try {
+      const [a, b] = await Promise.all([resolveFrom(ac.signal), resolveTo(ac.signal)]);
+      if (!a) {
+        throw new Error(
+          from.trim()
+            ? `Couldn't find "${from.trim()}".`
+            : "Current location unknown. Please enter a starting location."
+        );
+      }
+      if (!b) throw new Error(`Couldn't find "${to.trim()}".`);
+
+      const list = await fetchRoutes(a, b, ac.signal);
+      setRoutes(list);
+      setPlannerFor(null);
+      setEnds({
+        from: { lat: a.lat, lon: a.lon, label: from.trim() || "Current location" },
+        to: { lat: b.lat, lon: b.lon, label: to.trim() },
+      });
+
+      // 天氣：取起訖點中間查一次風險 Lambda（失敗就只看告警）
+      getPlaceRisk({ lat: (a.lat + b.lat) / 2, lon: (a.lon + b.lon) / 2 })
+        .then((r) => { if (!ac.signal.aborted) setWeather(r.weather); })
+        .catch(() => setWeather(undefined));
+      setStatus("done");
+    } catch (err) {
+      if ((err as Error)?.name === "AbortError") return; // 被新查詢取消
+      console.error("find routes failed:", err);
+      setRoutes([]);
+      setError((err as Error)?.message || "Failed to load routes");
+      setStatus("error");
+    } finally {
+      if (inflightRef.current === ac) inflightRef.current = null;
+    }
+  };
+
   return (
     <main className="plan-route-page">
       {/* Form 區塊 */}
-      <section className="route-form card">
+      <form className="route-form card" onSubmit={findRoutes}>
         <h2 className="section-title">
           {/* 紙飛機 Icon（已移除中間線） */}
           <svg
@@ -87,13 +155,25 @@ export default function PlanRoutePage() {
           Plan Your Route
         </h2>
 
-        <label>From</label>
-        <input type="text" placeholder="Enter starting location" />
-        <label>To</label>
-        <input type="text" placeholder="Enter destination" />
+        <label htmlFor="route-from">From</label>
+        <input
+          id="route-from"
+          type="text"
+          placeholder="Current location"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+        />
+        <label htmlFor="route-to">To</label>
+        <input
+          id="route-to"
+          type="text"
+          placeholder="Enter destination"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+        />
 
         {/* Button with Icon */}
-        <button className="find-route-btn">
+        <button type="submit" className="find-route-btn" disabled={status === "loading"}>
           <svg
             xmlns="http://www.w3.org/2000/svg"
             fill="none"
@@ -108,15 +188,28 @@ export default function PlanRoutePage() {
               d="M22 2L15 22L11 13L2 9L22 2Z"
             />
           </svg>
-          Find Safe Routes
+          {status === "loading" ? "Finding routes…" : "Find Safe Routes"}
         </button>
-      </section>
+      </form>
 
       {/* Recommended Routes */}
       <section className="recommended-routes">
         <h3 className="section-subtitle">Recommended Routes</h3>
 
-        {routes.map((route) => (
+        {status === "idle" && (
+          <p className="route-state">Enter a destination to see safe cycling routes.</p>
+        )}
+        {status === "loading" && <p className="route-state">Looking for the safest routes…</p>}
+        {status === "error" && (
+          <p className="route-state error" role="alert">
+            {error}
+          </p>
+        )}
+        {status === "done" && routes.length === 0 && (
+          <p className="route-state">No cycling routes found between these locations.</p>
+        )}
+
+        {scored.map((route) => (
           <div key={route.id} className="route-card card">
             <div className="route-header">
               {/* ✅ 標題 + 距離 & 時間 */}
@@ -125,11 +218,11 @@ export default function PlanRoutePage() {
                 <div className="meta">
                   <span className="meta-item">
                     <img src={PinIcon} alt="distance" className="meta-icon" />
-                    {route.distance}
+                    {formatDistance(route.distanceM)}
                   </span>
                   <span className="meta-item">
                     <img src={ClockIcon} alt="time" className="meta-icon" />
-                    {route.time}
+                    {formatDuration(route.durationS)}
                   </span>
                 </div>
               </div>
@@ -137,10 +230,10 @@ export default function PlanRoutePage() {
               {/* ✅ Badge */}
               <div className="badges">
                 <span className={`safety-badge ${route.safety}`}>
-                  ○ {route.safety.charAt(0).toUpperCase() + route.safety.slice(1)} Safety
+                  ○ {capitalize(route.safety)} Safety
                 </span>
-                <span className={`risk-badge ${route.risk}`}>
-                  {route.risk.charAt(0).toUpperCase() + route.risk.slice(1)} Risk
+                <span className={`risk-badge ${route.risk}`} title={`Risk score ${route.score} / 100`}>
+                  {capitalize(route.risk)} Risk · {route.score}
                 </span>
               </div>
             </div>
@@ -175,12 +268,40 @@ export default function PlanRoutePage() {
             )}
 
             <div className="card-actions">
-              <button className="primary">Select Route</button>
-              <button className="secondary">View Details</button>
+              {ends && isSameRoute(active, route.id, ends) ? (
+                <button type="button" className="primary" onClick={() => navigate(planRouteLink(ends, route.id))}>
+                  ✓ Active Route
+                </button>
+              ) : (
+                <button type="button" className="primary" disabled={!ends} onClick={() => ends && selectRoute(route, ends)}>
+                  Select Route
+                </button>
+              )}
+              <button
+                type="button"
+                className="secondary"
+                disabled={!ends}
+                onClick={() => ends && navigate(planRouteLink(ends, route.id))}
+              >
+                View Details
+              </button>
+              <button
+                type="button"
+                className="secondary"
+                aria-expanded={plannerFor === route.id}
+                onClick={() => setPlannerFor((id) => (id === route.id ? null : route.id))}
+              >
+                When to Leave?
+              </button>
             </div>
+
+            {plannerFor === route.id && <DeparturePlanner route={route} alerts={alerts} />}
           </div>
         ))}
 
+        {/* 匯入 GPX / GeoJSON 軌跡 */}
+        <TrackImportCard />
+
         {/* Tips 區塊 */}
         <div className="tips-box">
           <h3>Route Planning Tips</h3>
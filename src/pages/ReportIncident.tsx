@@ -1,7 +1,7 @@
 // src/pages/ReportIncident.tsx
 import "./ReportIncident.css";
 import alertIcon from "../assets/alert-red.svg";
-import { useState, useMemo, useCallback, useEffect } from "react";
+import { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import IncidentTypeSelect, { getIncidentTypeMeta } from "./IncidentTypeSelect";
 import type { IncidentTypeCode } from "./IncidentTypeSelect";
@@ -27,6 +27,7 @@ import DeleteOutlineIcon from "@mui/icons-material/DeleteOutline";
 import UploadIcon from "@mui/icons-material/CloudUpload";
 import MyLocationIcon from "@mui/icons-material/MyLocation";
 import PhotoCameraIcon from "@mui/icons-material/PhotoCamera";
+import MapIcon from "@mui/icons-material/Map";
 
 /* MUI DateTimePicker */
 import dayjs from "dayjs";
@@ -37,10 +38,15 @@ import { DateTimePicker } from "@mui/x-date-pickers/DateTimePicker";
 
 /* 相機對話框 */
 import CameraCaptureDialog from "../components/CameraCaptureDialog";
+import LocationPickerDialog from "../components/LocationPickerDialog";
 
-/* API */
-import { createIncident, getUploadUrl } from "../lib/api";
+/* API / 離線佇列 */
 import type { CreateIncidentPayload } from "../lib/api";
+import { load, on } from "../lib/bus";
+import { geocode, resolveLga, reverseGeocode, type ReverseResult } from "../lib/geocode";
+import { getSettings } from "../lib/settings";
+import { submitReport } from "../services/reportQueue";
+import ReportQueueList from "../components/ReportQueueList";
 
 /* ====== 顏色與文字對照表 ====== */
 type SeverityCode = "low" | "medium" | "high" | "critical";
@@ -57,6 +63,20 @@ const severityLabels: Record<SeverityCode, string> = {
   critical: "Critical - Emergency",
 };
 
+/* ====== 座標來源（決定 chip 文字） ====== */
+type CoordsFrom = "current" | "map" | "address";
+const COORDS_FROM_LABELS: Record<CoordsFrom, string> = {
+  current: "Using current location",
+  map: "Pinned on map",
+  address: "Address found",
+};
+
+/* ====== LGA（council）：由座標反查 ====== */
+type LgaState = { key: string; status: "loading" | "done" | "error"; name?: string };
+const LGA_DEBOUNCE_MS = 600;        // 拖曳 / 連續定位時不要每次都查
+const LGA_SUBMIT_TIMEOUT_MS = 5000; // 送出時還沒查到就最多再等這麼久
+const coordKey = (c: { lat: number; lng: number }) => `${c.lat.toFixed(4)},${c.lng.toFixed(4)}`;
+
 /* ====== 影像工具：統一轉成 JPEG、必要時縮圖壓縮到 <= 5MB ====== */
 const MAX_FILES = 5;
 const MAX_MB = 5;
@@ -139,53 +159,86 @@ export default function ReportIncident() {
   const [coords, setCoords] = useState<{ lat: number; lng: number } | null>(null);
   const [geoBusy, setGeoBusy] = useState(false);
   const [geoError, setGeoError] = useState<string | null>(null);
+  const [lga, setLga] = useState<LgaState | null>(null);
+  const [coordsFrom, setCoordsFrom] = useState<CoordsFrom>("current");
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [labelEdited, setLabelEdited] = useState(false); // 座標來自圖釘 / 定位後，又改了欄位文字
+  const [locating, setLocating] = useState(false);
+  // 使用者自己改過位置（打字 / 地圖 / 定位）後，就不再跟著首頁的位置更新
+  const manualRef = useRef(false);
 
   /* UI 狀態 */
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [submitting, setSubmitting] = useState(false);
-  const [uploading, setUploading] = useState(false);
 
   // Snackbar 狀態
   const [snackOpen, setSnackOpen] = useState(false);
   const [snackMsg, setSnackMsg] = useState("");
-  const [snackSeverity, setSnackSeverity] = useState<"success" | "error">("success");
+  const [snackSeverity, setSnackSeverity] = useState<"success" | "info" | "error">("success");
 
   const navigate = useNavigate();
   const [camOpen, setCamOpen] = useState(false);
 
   /* ====== 讀取首頁存的地址/座標，預填 + 同步監聽 ====== */
   useEffect(() => {
-    try {
-      const savedAddr = localStorage.getItem("cs.address");
-      if (savedAddr) setLocation((prev) => (prev ? prev : savedAddr));
-
-      const cs = localStorage.getItem("cs.coords");
-      if (cs) {
-        const { lat, lon } = JSON.parse(cs);
-        if (Number.isFinite(lat) && Number.isFinite(lon)) {
-          setCoords({ lat, lng: lon });
-        }
-      }
-    } catch {
-      // ignore
-    }
+    const savedAddr = load("address");
+    if (savedAddr) setLocation((prev) => (prev ? prev : savedAddr));
+
+    const saved = load("coords");
+    if (saved) setCoords({ lat: saved.lat, lng: saved.lon });
+
+    // 同步監聽（若首頁位置變動；使用者自己選過就不覆蓋）
+    const unsubs = [
+      on("address", (a) => {
+        if (!manualRef.current) setLocation(a);
+      }),
+      on("coords", ({ lat, lon }) => {
+        if (!manualRef.current) setCoords({ lat, lng: lon });
+      }),
+    ];
+    return () => unsubs.forEach((off) => off());
+  }, []);
 
-    // 同步監聽（若首頁位置變動）
-    const onAddr = (e: Event) => {
-      const addr = (e as CustomEvent).detail as string | undefined;
-      if (addr) setLocation(addr);
-    };
-    const onCoords = (e: Event) => {
-      const d = (e as CustomEvent).detail as { lat?: number; lon?: number } | undefined;
-      if (d?.lat != null && d?.lon != null) setCoords({ lat: d.lat, lng: d.lon });
-    };
-    window.addEventListener("cs:address", onAddr);
-    window.addEventListener("cs:coords", onCoords);
+  /* 座標變動 → 反查 LGA（顯示在座標 chip 旁，送出時帶入 payload） */
+  useEffect(() => {
+    if (!coords) {
+      setLga(null);
+      return;
+    }
+    const key = coordKey(coords);
+    const ac = new AbortController();
+    setLga({ key, status: "loading" });
+    const timer = window.setTimeout(() => {
+      resolveLga({ lat: coords.lat, lon: coords.lng }, ac.signal)
+        .then((name) => setLga({ key, status: "done", name }))
+        .catch((e: Error) => {
+          if (e.name === "AbortError") return;
+          console.warn("resolve LGA failed", e);
+          setLga({ key, status: "error" });
+        });
+    }, LGA_DEBOUNCE_MS);
     return () => {
-      window.removeEventListener("cs:address", onAddr);
-      window.removeEventListener("cs:coords", onCoords);
+      window.clearTimeout(timer);
+      ac.abort();
     };
-  }, []);
+    // 只看數值（coords 物件每次同步都是新的）
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [coords?.lat, coords?.lng]);
+
+  /** 送出用：已查到就用，否則現查（限時；查不到就留空，由後端處理） */
+  const lgaFor = async (c: { lat: number; lng: number } | null) => {
+    if (!c) return "";
+    if (lga?.key === coordKey(c) && lga.status === "done") return lga.name ?? "";
+    const ac = new AbortController();
+    const timer = window.setTimeout(() => ac.abort(), LGA_SUBMIT_TIMEOUT_MS);
+    try {
+      return (await resolveLga({ lat: c.lat, lon: c.lng }, ac.signal)) ?? "";
+    } catch {
+      return "";
+    } finally {
+      window.clearTimeout(timer);
+    }
+  };
 
   /* 上傳處理 */
   const acceptTypes = useMemo(() => ["image/jpeg", "image/png", "image/webp"], []);
@@ -257,9 +310,19 @@ export default function ReportIncident() {
     navigator.geolocation.getCurrentPosition(
       (pos) => {
         const { latitude, longitude } = pos.coords;
+        const coordText = `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+        manualRef.current = true;
         setCoords({ lat: latitude, lng: longitude });
-        setLocation(`${latitude.toFixed(6)}, ${longitude.toFixed(6)}`);
+        setCoordsFrom("current");
+        setLabelEdited(false);
+        setLocation(coordText);
         setGeoBusy(false);
+        // 先填座標，查到地址再換成「路名, 區」（使用者已經改了欄位就不動）
+        reverseGeocode({ lat: latitude, lon: longitude })
+          .then((r) => {
+            if (r) setLocation((prev) => (prev === coordText ? r.short ?? r.label : prev));
+          })
+          .catch((e) => console.warn("reverse geocode failed", e));
       },
       (err) => {
         if (err.code === err.PERMISSION_DENIED) {
@@ -277,14 +340,60 @@ export default function ReportIncident() {
     );
   };
 
-  /* 若沒座標、但使用者填了 "lat, lng" 文字，嘗試解析 */
-  const coordsFromFreeText = (): { lat: number; lng: number } | null => {
-    const m = location.match(/(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)/);
-    if (!m) return null;
-    const lat = Number(m[1]);
-    const lng = Number(m[2]);
-    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
-    return { lat, lng };
+  /* 地圖選點 */
+  const pickOnMap = (p: ReverseResult) => {
+    manualRef.current = true;
+    setCoords({ lat: p.lat, lng: p.lon });
+    setCoordsFrom("map");
+    setLabelEdited(false);
+    setLocation(p.short ?? p.label);
+    setErrors((e) => ({ ...e, location: "" }));
+    setPickerOpen(false);
+  };
+
+  /* 打字改地址：多半只是修飾圖釘 / 定位給的路名，座標先留著；清空欄位或按「重新定位」才丟掉 */
+  const typeLocation = (text: string) => {
+    manualRef.current = true;
+    setLocation(text);
+    if (!text.trim()) {
+      setCoords(null);
+      setLabelEdited(false);
+    } else if (coords) {
+      setLabelEdited(true);
+    }
+  };
+
+  /* 用欄位文字查座標（"lat, lng" 直接用）；查不到就在欄位顯示錯誤，回傳 null */
+  const locateText = async () => {
+    const hit = await geocode(location).catch((e) => {
+      console.warn("geocode failed", e);
+      return null;
+    });
+    if (!hit) {
+      setErrors((e) => ({
+        ...e,
+        location: navigator.onLine
+          ? "We couldn't find this location. Pick it on the map or use your current location."
+          : "You're offline, so this address can't be looked up. Pick it on the map or use your current location.",
+      }));
+      return null;
+    }
+    const found = { lat: hit.lat, lng: hit.lon };
+    setCoords(found);
+    setCoordsFrom("address");
+    setLabelEdited(false);
+    setErrors((e) => ({ ...e, location: "" }));
+    return found;
+  };
+
+  /* 「重新定位」：改過的文字指的是別的地方時，用文字重查座標 */
+  const relocate = async () => {
+    setLocating(true);
+    try {
+      await locateText();
+    } finally {
+      setLocating(false);
+    }
   };
 
   /* 驗證 */
@@ -307,40 +416,8 @@ export default function ReportIncident() {
     return Object.keys(newErrors).length === 0;
   };
 
-  /* 上傳所有照片到 S3，回傳 S3 key/URL 陣列（帶 header 失敗則回退不帶） */
-  async function uploadAllPhotos(files: File[]): Promise<string[]> {
-    if (files.length === 0) return [];
-    setUploading(true);
-    try {
-      const urls: string[] = [];
-      for (const raw of files) {
-        // 再保險一次：全部規範化後上傳
-        const file = await normalizeToJpeg(raw, MAX_DIM, MAX_MB);
-        const { url, key } = await getUploadUrl(file.name, file.type || "image/jpeg");
-
-        // 嘗試 1：帶 Content-Type
-        let put = await fetch(url, {
-          method: "PUT",
-          headers: { "Content-Type": file.type || "image/jpeg" },
-          body: file,
-        });
-
-        // 嘗試 2：有些預簽不允許帶 Content-Type；移除後重試
-        if (!put.ok) {
-          put = await fetch(url, { method: "PUT", body: file });
-        }
-        if (!put.ok) throw new Error(`Upload failed: ${file.name} (${put.status})`);
-
-        urls.push(key);
-      }
-      return urls;
-    } finally {
-      setUploading(false);
-    }
-  }
-
   // 開啟 Snackbar 的小工具
-  const openSnack = (msg: string, severity: "success" | "error") => {
+  const openSnack = (msg: string, severity: "success" | "info" | "error") => {
     setSnackMsg(msg);
     setSnackSeverity(severity);
     setSnackOpen(true);
@@ -350,36 +427,51 @@ export default function ReportIncident() {
   const handleSubmit = async () => {
     if (!validate()) return;
 
-    // 沒有 coords 就嘗試從 location 解析 "lat, lng"
-    let finalCoords = coords;
-    if (!finalCoords) {
-      finalCoords = coordsFromFreeText();
-      if (finalCoords) setCoords(finalCoords);
-    }
-
     setSubmitting(true);
     try {
-      const pictureKeys = await uploadAllPhotos(photos);
+      // 沒有 coords 就用輸入的地址查（"lat, lng" 直接用）；查不到就不送，請使用者在地圖上選
+      const finalCoords = coords ?? (await locateText());
+      if (!finalCoords) return;
+
       const typeMeta = getIncidentTypeMeta(incidentType || undefined);
+      const lgaName = navigator.onLine ? await lgaFor(finalCoords) : "";
 
-      const payload: CreateIncidentPayload = {
+      const payload: Omit<CreateIncidentPayload, "Picture"> = {
         Timestamp: dateTime!.toDate().toISOString(),
         Incident_severity: severity as SeverityCode,
         Incident_description: description.trim(),
         Latitude: finalCoords?.lat,
         Longitude: finalCoords?.lng,
-        LGA: "",
+        LGA: lgaName,
         Verification: "pending",
-        Picture: pictureKeys,
         Incident_type: incidentType as IncidentTypeCode,
         Incident_type_desc: typeMeta?.label || "Other",
       };
 
-      await createIncident(payload);
-
-      // ✅ 成功提示 + 延遲導頁
-      openSnack("Report submitted successfully!", "success");
-      setTimeout(() => navigate("/"), 1500);
+      // 先存進離線佇列（含規範化後的照片），再立即嘗試送出
+      const files = await Promise.all(photos.map((f) => normalizeToJpeg(f, MAX_DIM, MAX_MB)));
+      const result = await submitReport(payload, files);
+
+      if (result.status === "sent") {
+        // ✅ 成功提示 + 延遲導頁
+        openSnack(`Report submitted successfully! (INCIDENT_NO ${result.incidentNo})`, "success");
+        setTimeout(() => navigate("/"), 1500);
+      } else if (!navigator.onLine) {
+        // 📥 離線：已存起來，連線恢復會自動重送
+        openSnack("You're offline. Report saved and will be sent automatically.", "info");
+      } else if (result.status === "uploading") {
+        // 背景重試剛好在送這筆
+        openSnack("Report saved and is being sent in the background.", "info");
+      } else {
+        // 有網路但送不出去：照實說原因
+        const reason = result.lastError || "unknown error";
+        openSnack(
+          result.status === "failed"
+            ? `Couldn't send: ${reason}. Report saved; retry it from the list below.`
+            : `Couldn't send yet: ${reason}. Report saved and will retry automatically.`,
+          "info"
+        );
+      }
 
       // reset 表單
       setIncidentType("");
@@ -389,9 +481,12 @@ export default function ReportIncident() {
       setDescription("");
       setPhotos([]);
       setCoords(null);
-    } catch (err: any) {
+      setCoordsFrom("current");
+      setLabelEdited(false);
+      manualRef.current = false;
+    } catch (err) {
       console.error(err);
-      openSnack(err?.message || "Failed to submit", "error");
+      openSnack((err as Error)?.message || "Failed to save report", "error");
     } finally {
       setSubmitting(false);
     }
@@ -436,9 +531,14 @@ export default function ReportIncident() {
           required
           placeholder="Enter specific location or intersection"
           value={location}
-          onChange={(e) => setLocation(e.target.value)}
+          onChange={(e) => typeLocation(e.target.value)}
           error={!!errors.location}
-          helperText={errors.location || geoError}
+          helperText={
+            errors.location ||
+            geoError ||
+            (!coords && location.trim() ? "This address will be located when you submit, or pick it on the map." : undefined) ||
+            (labelEdited ? "Still using the coordinates below. Re-locate if the text now points somewhere else." : undefined)
+          }
           InputProps={{
             startAdornment: (
               <InputAdornment position="start">
@@ -447,6 +547,11 @@ export default function ReportIncident() {
             ),
             endAdornment: (
               <InputAdornment position="end">
+                <Tooltip title="Pick on map">
+                  <IconButton size="small" onClick={() => setPickerOpen(true)}>
+                    <MapIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
                 <Tooltip title="Use current location">
                   <span>
                     <IconButton size="small" onClick={getCurrentLocation} disabled={geoBusy}>
@@ -461,7 +566,31 @@ export default function ReportIncident() {
         />
         {coords && (
           <Box sx={{ mt: 0.5 }}>
-            <Chip size="small" label={`Using current location • ${coords.lat.toFixed(4)}, ${coords.lng.toFixed(4)}`} variant="outlined" color="primary" />
+            <Chip size="small" label={`${COORDS_FROM_LABELS[coordsFrom]} • ${coords.lat.toFixed(4)}, ${coords.lng.toFixed(4)}`} variant="outlined" color="primary" />
+            {labelEdited && (
+              <Chip
+                size="small"
+                sx={{ ml: 0.5 }}
+                variant="outlined"
+                label={locating ? "Locating…" : "Re-locate from text"}
+                onClick={locating ? undefined : relocate}
+              />
+            )}
+            {lga && (
+              <Chip
+                size="small"
+                sx={{ ml: 0.5 }}
+                variant="outlined"
+                color={lga.status === "done" && lga.name ? "primary" : "default"}
+                label={
+                  lga.status === "loading"
+                    ? "Finding council…"
+                    : lga.name
+                      ? `LGA • ${lga.name}`
+                      : "Council unknown"
+                }
+              />
+            )}
           </Box>
         )}
 
@@ -612,7 +741,7 @@ export default function ReportIncident() {
         )}
 
         {/* 上傳進度 */}
-        {(uploading || submitting) && (
+        {submitting && (
           <Box sx={{ mt: 2 }}>
             <LinearProgress />
           </Box>
@@ -631,17 +760,27 @@ export default function ReportIncident() {
 
         {/* Buttons */}
         <div className="form-actions">
-          <Button className="submit-btn" startIcon={<SendIcon fontSize="small" />} onClick={handleSubmit} disabled={submitting || uploading}>
-            {submitting || uploading ? "Submitting…" : "Submit Report"}
+          <Button className="submit-btn" startIcon={<SendIcon fontSize="small" />} onClick={handleSubmit} disabled={submitting}>
+            {submitting ? "Submitting…" : "Submit Report"}
           </Button>
-          <Button className="cancel-btn" onClick={() => navigate("/")} disabled={submitting || uploading}>
+          <Button className="cancel-btn" onClick={() => navigate("/")} disabled={submitting}>
             Cancel
           </Button>
         </div>
+
+        {/* 離線佇列：待送出 / 已送出 */}
+        <ReportQueueList />
       </section>
 
       {/* 相機元件 */}
       <CameraCaptureDialog open={camOpen} onClose={() => setCamOpen(false)} onCaptured={handleCapturedFile} />
+      <LocationPickerDialog
+        open={pickerOpen}
+        center={load("coords") ?? getSettings().fallbackLocation}
+        initial={coords ? { lat: coords.lat, lon: coords.lng } : null}
+        onClose={() => setPickerOpen(false)}
+        onPick={pickOnMap}
+      />
 
       {/* Snackbar：成功 / 錯誤提示 */}
       <Snackbar
@@ -659,7 +798,7 @@ export default function ReportIncident() {
             fontSize: "1rem",
             fontWeight: "bold",
             textAlign: "center",
-            bgcolor: snackSeverity === "success" ? "#1e293b" : "#b91c1c",
+            bgcolor: snackSeverity === "error" ? "#b91c1c" : "#1e293b",
             color: "#fff",
           }}
         >
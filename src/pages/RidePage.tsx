@@ -0,0 +1,276 @@
+// src/pages/RidePage.tsx
+// 騎乘模式：開始 → 即時位置 / 最近的告警 / 逐級警示 → 結束後的騎乘摘要；過去的騎乘可匯出 GPX / GeoJSON
+import "./RidePage.css";
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Polyline } from "react-leaflet";
+import MapView from "../components/MapView";
+import AlertMarkers from "../components/AlertMarkers";
+import { useActiveRoute } from "../lib/activeRoute";
+import { titleOf, type AlertLite } from "../lib/alerts";
+import { load, on } from "../lib/bus";
+import { downloadText, safeFileName } from "../lib/download";
+import { formatMeters } from "../lib/geo";
+import type { ProximityStage, ProximityWarning } from "../lib/notify";
+import { formatDuration } from "../lib/routes";
+import { formatSpeed, useSettings } from "../lib/settings";
+import { toGeoJson, toGpx } from "../lib/tracks";
+import {
+  deleteRide,
+  endRide,
+  listRides,
+  resetRide,
+  rideName,
+  rideToTrack,
+  startRide,
+  useRide,
+  type RideState,
+  type SavedRide,
+} from "../services/rideService";
+import { useRisk } from "../services/riskService";
+
+const STAGE_LABELS: Record<ProximityStage, string> = {
+  1: "Hazard ahead",
+  2: "Hazard close",
+  3: "Hazard right ahead",
+};
+
+const WARNING_SHOW_MS = 8000;
+
+const formatClock = (ms: number) => {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  const hh = Math.floor(s / 3600);
+  const mm = String(Math.floor((s % 3600) / 60)).padStart(2, "0");
+  const ss = String(s % 60).padStart(2, "0");
+  return hh ? `${hh}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+type ExportFormat = "gpx" | "geojson";
+
+function exportRide(ride: Pick<SavedRide, "name" | "track" | "warnings">, format: ExportFormat) {
+  const track = rideToTrack(ride);
+  const base = safeFileName(`cycsafe-${ride.name}`);
+  if (format === "gpx") downloadText(`${base}.gpx`, toGpx(track), "application/gpx+xml");
+  else downloadText(`${base}.geojson`, toGeoJson(track), "application/geo+json");
+}
+
+function ExportButtons({ ride }: { ride: Pick<SavedRide, "name" | "track" | "warnings"> }) {
+  const disabled = ride.track.length < 2;
+  return (
+    <>
+      <button type="button" className="ride-btn outline" disabled={disabled} onClick={() => exportRide(ride, "gpx")}>
+        Export GPX
+      </button>
+      <button type="button" className="ride-btn outline" disabled={disabled} onClick={() => exportRide(ride, "geojson")}>
+        Export GeoJSON
+      </button>
+    </>
+  );
+}
+
+/** 存在這台裝置上的騎乘紀錄 */
+function PastRides() {
+  const [rides, setRides] = useState<SavedRide[]>([]);
+
+  useEffect(() => {
+    const refresh = () => { void listRides().then(setRides); };
+    refresh();
+    return on("rides", refresh);
+  }, []);
+
+  if (rides.length === 0) return null;
+
+  return (
+    <section className="ride-card">
+      <h3>Past rides</h3>
+      <ul className="ride-history">
+        {rides.map((r) => (
+          <li key={r.id}>
+            <div>
+              <strong>{r.name}</strong>
+              <span>
+                {formatMeters(r.distanceM)} · {formatDuration(Math.max(1, (r.endedAt - r.startedAt) / 1000))}
+                {r.warnings.length > 0 && ` · ${r.warnings.length} hazard${r.warnings.length === 1 ? "" : "s"}`}
+              </span>
+            </div>
+            <div className="ride-actions">
+              <ExportButtons ride={r} />
+              <button type="button" className="ride-btn outline" onClick={() => void deleteRide(r.id)}>
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+/** 騎乘摘要 */
+function RideSummary({ ride }: { ride: RideState }) {
+  const { speedUnit } = useSettings();
+  const durationS = Math.max(1, (ride.endedAt - ride.startedAt) / 1000);
+  const avgMs = ride.distanceM / durationS;
+  const warnings = [...ride.warnings].sort((a, b) => a.at - b.at);
+
+  return (
+    <section className="ride-card">
+      <h3>Ride summary</h3>
+      <div className="ride-stats">
+        <div><span>Duration</span><strong>{formatDuration(durationS)}</strong></div>
+        <div><span>Distance</span><strong>{formatMeters(ride.distanceM)}</strong></div>
+        <div><span>Avg speed</span><strong>{formatSpeed(avgMs, speedUnit)}</strong></div>
+        <div><span>Top speed</span><strong>{formatSpeed(ride.maxSpeedMs, speedUnit)}</strong></div>
+      </div>
+
+      <h4>Hazards passed</h4>
+      {warnings.length === 0 ? (
+        <p className="ride-hint">No alerts came within your warning distance. Nice ride!</p>
+      ) : (
+        <ul className="ride-hazards">
+          {warnings.map((w) => (
+            <li key={w.alert.clusterId} className={`stage-${w.stage}`}>
+              <strong>{titleOf(w.alert)}</strong>
+              <span>
+                closest warning at {formatMeters(w.distanceM)} · {new Date(w.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {ride.track.length >= 2 && (
+        <div className="ride-actions">
+          <ExportButtons ride={{ name: rideName(ride.startedAt), track: ride.track, warnings: ride.warnings }} />
+        </div>
+      )}
+
+      <div className="ride-actions">
+        <button type="button" className="ride-btn" onClick={startRide}>Start another ride</button>
+        <button type="button" className="ride-btn outline" onClick={resetRide}>Done</button>
+      </div>
+    </section>
+  );
+}
+
+export default function RidePage() {
+  const ride = useRide();
+  const risk = useRisk();
+  const { rideWarnDistanceM, speedUnit } = useSettings();
+  const activeRoute = useActiveRoute();
+  const [alerts, setAlerts] = useState<AlertLite[]>(() => load("alerts.list", []));
+  const [warning, setWarning] = useState<ProximityWarning | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const unsubs = [
+      on("alerts:list", ({ list }) => setAlerts(list)),
+      on("ride:warning", setWarning),
+    ];
+    return () => unsubs.forEach((off) => off());
+  }, []);
+
+  // 騎乘中每秒更新計時 / 讓警示條過期
+  useEffect(() => {
+    if (ride.status !== "riding") return;
+    const tick = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(tick);
+  }, [ride.status]);
+
+  const showWarning = warning && ride.status === "riding" && now - warning.at < WARNING_SHOW_MS ? warning : null;
+  const last = ride.track[ride.track.length - 1];
+  const here = last ?? risk.coords;
+  const nowS = Math.floor(now / 1000);
+
+  if (ride.status === "ended") {
+    return (
+      <main className="ride-page">
+        <h2>Ride mode</h2>
+        <RideSummary ride={ride} />
+      </main>
+    );
+  }
+
+  if (ride.status === "idle") {
+    return (
+      <main className="ride-page">
+        <h2>Ride mode</h2>
+        <section className="ride-card">
+          <p>
+            Keeps your screen on, follows your position and warns you with vibration, sound and an on-screen banner
+            when you get within <strong>{formatMeters(rideWarnDistanceM)}</strong> of an active alert.
+          </p>
+          {activeRoute && (
+            <p className="ride-hint">
+              Following <strong>{activeRoute.name}</strong> to {activeRoute.to.label || "your destination"}: only alerts
+              along the route will warn you while you're on it.
+            </p>
+          )}
+          <p className="ride-hint">
+            Change the warning distance or turn sounds off in <Link to="/settings">Settings</Link>.
+          </p>
+          {ride.error && <p className="ride-error">{ride.error}</p>}
+          <button type="button" className="ride-btn big" onClick={startRide}>Start ride</button>
+        </section>
+        <PastRides />
+      </main>
+    );
+  }
+
+  return (
+    <main className="ride-page riding">
+      {showWarning && (
+        <div className={`ride-warning stage-${showWarning.stage}`} role="alert">
+          <strong>{STAGE_LABELS[showWarning.stage]}</strong>
+          <span>{titleOf(showWarning.alert)} · {formatMeters(showWarning.distanceM)}</span>
+        </div>
+      )}
+
+      <section className="ride-map">
+        <MapView center={here} rider={last ?? null} zoom={16}>
+          {ride.route && (
+            <Polyline
+              positions={ride.route.path.map((p) => [p.lat, p.lon] as [number, number])}
+              pathOptions={{ color: "#6b7280", weight: 5, opacity: 0.6, dashArray: "8 8" }}
+            />
+          )}
+          {ride.track.length > 1 && (
+            <Polyline
+              positions={ride.track.map((p) => [p.lat, p.lon] as [number, number])}
+              pathOptions={{ color: "#2563eb", weight: 4, opacity: 0.7 }}
+            />
+          )}
+          <AlertMarkers alerts={alerts.filter((a) => a.expiresAt > nowS)} now={nowS} />
+        </MapView>
+      </section>
+
+      <section className="ride-stats">
+        <div><span>Time</span><strong>{formatClock(now - ride.startedAt)}</strong></div>
+        <div><span>Distance</span><strong>{formatMeters(ride.distanceM)}</strong></div>
+        <div><span>Speed</span><strong>{ride.speedMs == null ? "—" : formatSpeed(ride.speedMs, speedUnit)}</strong></div>
+        <div>
+          <span>Nearest alert</span>
+          <strong>{ride.nearest ? formatMeters(ride.nearest.distanceM) : "—"}</strong>
+        </div>
+      </section>
+
+      {ride.error && <p className="ride-error">{ride.error}</p>}
+      {ride.route && (
+        <p className={ride.offRoute ? "ride-error" : "ride-hint"}>
+          {ride.offRoute
+            ? `Off ${ride.route.name}: warning about all nearby alerts.`
+            : `Following ${ride.route.name}.`}
+        </p>
+      )}
+      <p className="ride-hint">
+        {ride.wakeLock === "on"
+          ? "Screen will stay on while riding."
+          : ride.wakeLock === "unsupported"
+            ? "This browser can't keep the screen on. Warnings still vibrate while it's unlocked."
+            : "Screen may turn off. Keep CycSafe open for warnings."}
+      </p>
+
+      <button type="button" className="ride-btn big danger" onClick={endRide}>End ride</button>
+    </main>
+  );
+}
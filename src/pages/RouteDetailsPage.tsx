@@ -0,0 +1,271 @@
+// src/pages/RouteDetailsPage.tsx
+// 路線詳細（/plan-route/:id?from=&fromAt=&to=&toAt=）：完整路線、逐段設施 / 高度 / 沿線告警，可設為目前路線或分享連結
+import "./RouteDetailsPage.css";
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { CircleMarker, Polyline, Tooltip } from "react-leaflet";
+import MapView from "../components/MapView";
+import AlertMarkers from "../components/AlertMarkers";
+
+import { clearActiveRoute, isSameRoute, selectRoute, useActiveRoute } from "../lib/activeRoute";
+import { alertPosition, titleOf, type AlertLite } from "../lib/alerts";
+import { load, on } from "../lib/bus";
+import { planRouteLink, readRoutePrefill, type CommuteEnd } from "../lib/commutes";
+import { distanceToPathM, haversineM } from "../lib/geo";
+import { scoreRoute, type RouteAlert } from "../lib/routeRisk";
+import {
+  elevationStats,
+  fetchRoutes,
+  formatDistance,
+  formatDuration,
+  INFRA_LABELS,
+  type InfraType,
+  type RouteCandidate,
+  type RoutePoint,
+} from "../lib/routes";
+
+type Status = "loading" | "done" | "error";
+
+const INFRA_COLORS: Record<InfraType, string> = { path: "#16a34a", lane: "#2563eb", shared: "#f97316" };
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+/** 高度剖面（沒有高度資料就不畫） */
+function ElevationProfile({ path }: { path: RoutePoint[] }) {
+  const W = 600;
+  const H = 80;
+  const pts = useMemo(() => {
+    let d = 0;
+    const out: { d: number; ele: number }[] = [];
+    path.forEach((p, i) => {
+      if (i > 0) d += haversineM(path[i - 1], p);
+      if (p.ele != null) out.push({ d, ele: p.ele });
+    });
+    return out;
+  }, [path]);
+
+  if (pts.length < 2) return null;
+  const maxD = pts[pts.length - 1].d || 1;
+  const minE = Math.min(...pts.map((p) => p.ele));
+  const maxE = Math.max(...pts.map((p) => p.ele));
+  const span = Math.max(10, maxE - minE); // 平路不要被放大成山
+  const line = pts.map((p) => `${((p.d / maxD) * W).toFixed(1)},${(H - ((p.ele - minE) / span) * (H - 6) - 3).toFixed(1)}`);
+
+  return (
+    <svg className="rd-profile" viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none" role="img" aria-label="Elevation profile">
+      <polygon points={`0,${H} ${line.join(" ")} ${W},${H}`} className="rd-profile-fill" />
+      <polyline points={line.join(" ")} className="rd-profile-line" />
+    </svg>
+  );
+}
+
+export default function RouteDetailsPage() {
+  const { id = "" } = useParams();
+  const [params] = useSearchParams();
+  const from = readRoutePrefill(params, "from");
+  const to = readRoutePrefill(params, "to");
+  const fromKey = params.get("fromAt") ?? "";
+  const toKey = params.get("toAt") ?? "";
+
+  const [route, setRoute] = useState<RouteCandidate | null>(null);
+  const [status, setStatus] = useState<Status>("loading");
+  const [error, setError] = useState<string | null>(null);
+  const [alerts, setAlerts] = useState<AlertLite[]>(() => load("alerts.list", []));
+  const [shareNote, setShareNote] = useState<string | null>(null);
+  const active = useActiveRoute();
+
+  useEffect(() => on("alerts:list", ({ list }) => setAlerts(list)), []);
+
+  // 用網址上的起訖點重查（同一組起訖點剛查過會直接用快取），再找出這條路線
+  useEffect(() => {
+    if (!from.at || !to.at) {
+      setStatus("error");
+      setError("This link is missing its start or destination.");
+      return;
+    }
+    const ac = new AbortController();
+    setStatus("loading");
+    fetchRoutes(from.at, to.at, ac.signal)
+      .then((list) => {
+        const found = list.find((r) => r.id === id) ?? null;
+        setRoute(found);
+        setStatus(found ? "done" : "error");
+        setError(found ? null : "This route is no longer available. Please plan it again.");
+      })
+      .catch((e: Error) => {
+        if (e.name === "AbortError") return;
+        setStatus("error");
+        setError(e.message || "Failed to load the route");
+      });
+    return () => ac.abort();
+    // 起訖點以字串比較，避免每次 render 的新物件重跑
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, fromKey, toKey]);
+
+  const ends: { from: CommuteEnd; to: CommuteEnd } | null =
+    from.at && to.at
+      ? {
+          from: { ...from.at, label: from.text || "Start" },
+          to: { ...to.at, label: to.text || "Destination" },
+        }
+      : null;
+
+  const risk = useMemo(() => (route ? scoreRoute(route.path, alerts) : null), [route, alerts]);
+
+  // 每個沿線告警歸到最近的那一段
+  const hazardsBySegment = useMemo(() => {
+    const out = new Map<number, RouteAlert[]>();
+    if (!route || !risk) return out;
+    for (const ra of risk.alerts) {
+      const p = alertPosition(ra.alert)!;
+      let best = 0;
+      let bestD = Infinity;
+      route.segments.forEach((s, i) => {
+        const d = distanceToPathM({ lat: p.lat, lon: p.lng }, route.path.slice(s.from, s.to + 1));
+        if (d < bestD) { bestD = d; best = i; }
+      });
+      out.set(best, [...(out.get(best) ?? []), ra]);
+    }
+    return out;
+  }, [route, risk]);
+
+  const backLink = ends ? planRouteLink(ends) : "/plan-route";
+
+  if (status !== "done" || !route || !risk || !ends) {
+    return (
+      <main className="rd-page">
+        <Link to={backLink} className="rd-back">← Back to routes</Link>
+        <section className="rd-card">
+          {status === "loading" ? <p>Loading route…</p> : <p className="rd-error" role="alert">{error}</p>}
+        </section>
+      </main>
+    );
+  }
+
+  const isActive = isSameRoute(active, route.id, ends);
+  const elevation = elevationStats(route.path);
+  const nowS = Math.floor(Date.now() / 1000);
+
+  const share = async () => {
+    const url = window.location.href;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: `CycSafe route: ${route.name}`, url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      setShareNote("Link copied");
+    } catch (e) {
+      if ((e as Error)?.name !== "AbortError") setShareNote("Couldn't share. Copy the address bar link instead.");
+    }
+  };
+
+  return (
+    <main className="rd-page">
+      <Link to={backLink} className="rd-back">← Back to routes</Link>
+
+      <section className="rd-card">
+        <div className="rd-head">
+          <div>
+            <h2>{route.name}</h2>
+            <p className="rd-sub">
+              {ends.from.label} → {ends.to.label}
+            </p>
+            <p className="rd-sub">
+              {formatDistance(route.distanceM)} · {formatDuration(route.durationS)}
+              {elevation && ` · ↑ ${Math.round(elevation.gain)} m ↓ ${Math.round(elevation.loss)} m`}
+            </p>
+          </div>
+          <div className="rd-badges">
+            <span className={`rd-badge ${risk.risk}`}>{capitalize(risk.risk)} Risk · {risk.score}</span>
+            {isActive && <span className="rd-badge active">Active route</span>}
+          </div>
+        </div>
+
+        <div className="rd-actions">
+          {isActive ? (
+            <button type="button" className="rd-btn outline" onClick={clearActiveRoute}>Stop using this route</button>
+          ) : (
+            <button type="button" className="rd-btn" onClick={() => selectRoute(route, ends)}>Select Route</button>
+          )}
+          <button type="button" className="rd-btn outline" onClick={() => void share()}>Share</button>
+          {isActive && <Link to="/ride" className="rd-btn outline">Start ride</Link>}
+        </div>
+        {shareNote && <p className="rd-sub">{shareNote}</p>}
+      </section>
+
+      <section className="rd-map">
+        <MapView center={route.path[0]} follow={false} fit={route.path}>
+          {route.segments.map((s, i) => (
+            <Polyline
+              key={i}
+              positions={route.path.slice(s.from, s.to + 1).map((p) => [p.lat, p.lon] as [number, number])}
+              pathOptions={{ color: INFRA_COLORS[s.infra], weight: 5, opacity: 0.85 }}
+            >
+              <Tooltip sticky>{s.name ?? INFRA_LABELS[s.infra]} · {INFRA_LABELS[s.infra]}</Tooltip>
+            </Polyline>
+          ))}
+          <CircleMarker center={[ends.from.lat, ends.from.lon]} radius={7} pathOptions={{ color: "#fff", weight: 2, fillColor: "#16a34a", fillOpacity: 1 }}>
+            <Tooltip>Start: {ends.from.label}</Tooltip>
+          </CircleMarker>
+          <CircleMarker center={[ends.to.lat, ends.to.lon]} radius={7} pathOptions={{ color: "#fff", weight: 2, fillColor: "#111827", fillOpacity: 1 }}>
+            <Tooltip>Destination: {ends.to.label}</Tooltip>
+          </CircleMarker>
+          <AlertMarkers alerts={risk.alerts.map((x) => x.alert)} now={nowS} />
+        </MapView>
+        <ul className="rd-legend">
+          {(Object.keys(INFRA_LABELS) as InfraType[]).map((k) => (
+            <li key={k}><span style={{ background: INFRA_COLORS[k] }} />{INFRA_LABELS[k]}</li>
+          ))}
+        </ul>
+      </section>
+
+      <section className="rd-card">
+        <h3>Elevation</h3>
+        {elevation ? (
+          <>
+            <ElevationProfile path={route.path} />
+            <p className="rd-sub">
+              {Math.round(elevation.min)}–{Math.round(elevation.max)} m · climb {Math.round(elevation.gain)} m · descent {Math.round(elevation.loss)} m
+            </p>
+          </>
+        ) : (
+          <p className="rd-sub">Elevation data isn't available for this route.</p>
+        )}
+      </section>
+
+      <section className="rd-card">
+        <h3>Turn by turn</h3>
+        <ol className="rd-segments">
+          {route.segments.map((s, i) => {
+            const ele = elevationStats(route.path, s.from, s.to);
+            const hazards = hazardsBySegment.get(i) ?? [];
+            return (
+              <li key={i} className={hazards.length ? "has-hazards" : ""}>
+                <div className="rd-seg-head">
+                  <strong>{s.instruction ?? s.name ?? `Segment ${i + 1}`}</strong>
+                  <span className={`rd-infra ${s.infra}`} title={s.infraText}>{INFRA_LABELS[s.infra]}</span>
+                </div>
+                <span className="rd-sub">
+                  {formatDistance(s.distanceM)}
+                  {s.instruction && s.name ? ` on ${s.name}` : ""}
+                  {ele && ` · ↑ ${Math.round(ele.gain)} m ↓ ${Math.round(ele.loss)} m`}
+                </span>
+                {hazards.length > 0 && (
+                  <ul className="rd-hazards">
+                    {hazards.map(({ alert }) => (
+                      <li key={alert.clusterId} className={alert.severity ?? "medium"}>
+                        ⚠ {titleOf(alert)}
+                        {alert.reportCount && alert.reportCount > 1 ? ` (${alert.reportCount} reports)` : ""}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </section>
+    </main>
+  );
+}
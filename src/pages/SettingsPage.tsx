@@ -0,0 +1,274 @@
+// src/pages/SettingsPage.tsx
+import "./SettingsPage.css";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  COOLDOWN_OPTIONS,
+  POLL_OPTIONS,
+  RADIUS_OPTIONS,
+  RIDE_WARN_OPTIONS,
+  resetSettings,
+  updateSettings,
+  useSettings,
+  type SpeedUnit,
+} from "../lib/settings";
+import { load } from "../lib/bus";
+import { geocode } from "../lib/geocode";
+import { formatMeters } from "../lib/geo";
+import { usePushStatus, type PushStatus } from "../lib/push";
+
+const formatSeconds = (s: number) => (s < 60 ? `${s} s` : `${Math.round(s / 60)} min`);
+
+const PUSH_LABELS: Record<PushStatus, string> = {
+  unsupported: "Not supported on this browser",
+  denied: "Blocked in browser settings",
+  off: "Off",
+  on: "On",
+};
+
+export default function SettingsPage() {
+  const settings = useSettings();
+  const push = usePushStatus();
+
+  // 門檻先放草稿，按 Save 才驗證寫入（medium 必須 < high）
+  const [medium, setMedium] = useState(String(settings.mediumRiskThreshold));
+  const [high, setHigh] = useState(String(settings.highRiskThreshold));
+  const [thresholdError, setThresholdError] = useState("");
+
+  // 預設位置搜尋
+  const [place, setPlace] = useState("");
+  const [placeStatus, setPlaceStatus] = useState<"idle" | "loading" | "error">("idle");
+  const [placeError, setPlaceError] = useState("");
+
+  const saveThresholds = (e: React.FormEvent) => {
+    e.preventDefault();
+    const med = Number(medium);
+    const hi = Number(high);
+    if (!Number.isFinite(med) || !Number.isFinite(hi) || med < 0 || hi > 100) {
+      setThresholdError("Thresholds must be between 0 and 100.");
+      return;
+    }
+    if (med >= hi) {
+      setThresholdError("Medium threshold must be lower than high threshold.");
+      return;
+    }
+    setThresholdError("");
+    updateSettings({ mediumRiskThreshold: med, highRiskThreshold: hi });
+  };
+
+  const saveFallback = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = place.trim();
+    if (!q) return;
+    setPlaceStatus("loading");
+    setPlaceError("");
+    try {
+      const hit = await geocode(q);
+      if (!hit) throw new Error(`Couldn't find "${q}"`);
+      updateSettings({ fallbackLocation: { lat: hit.lat, lon: hit.lon, label: hit.label } });
+      setPlace("");
+      setPlaceStatus("idle");
+    } catch (err) {
+      setPlaceStatus("error");
+      setPlaceError((err as Error).message || "Search failed");
+    }
+  };
+
+  const useCurrentAsFallback = () => {
+    const c = load("coords");
+    if (!c) {
+      setPlaceStatus("error");
+      setPlaceError("Current location is not known yet.");
+      return;
+    }
+    const label = load("address") ?? `${c.lat.toFixed(4)}, ${c.lon.toFixed(4)}`;
+    updateSettings({ fallbackLocation: { lat: c.lat, lon: c.lon, label } });
+    setPlaceStatus("idle");
+  };
+
+  const onReset = () => {
+    const next = resetSettings();
+    setMedium(String(next.mediumRiskThreshold));
+    setHigh(String(next.highRiskThreshold));
+    setThresholdError("");
+  };
+
+  return (
+    <main className="settings-page">
+      <h2>Settings</h2>
+
+      {/* 告警 */}
+      <section className="settings-card">
+        <h3>Alerts</h3>
+        <label className="settings-row">
+          <span>
+            Alert radius
+            <small>Alerts further away don't count toward the bell badge.</small>
+          </span>
+          <select
+            value={settings.alertRadiusM}
+            onChange={(e) => updateSettings({ alertRadiusM: Number(e.target.value) })}
+          >
+            {RADIUS_OPTIONS.map((m) => (
+              <option key={m} value={m}>{formatMeters(m)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="settings-row">
+          <span>
+            Notification cooldown
+            <small>Minimum time between vibrations / system notifications.</small>
+          </span>
+          <select
+            value={settings.notifyCooldownS}
+            onChange={(e) => updateSettings({ notifyCooldownS: Number(e.target.value) })}
+          >
+            {COOLDOWN_OPTIONS.map((s) => (
+              <option key={s} value={s}>{formatSeconds(s)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="settings-row">
+          <span>
+            Refresh every
+            <small>How often alerts and risk are polled while the app is open.</small>
+          </span>
+          <select
+            value={settings.pollIntervalS}
+            onChange={(e) => updateSettings({ pollIntervalS: Number(e.target.value) })}
+          >
+            {/* 目前值若不在選項內（例如來自 .env），也列出來 */}
+            {[...new Set([...POLL_OPTIONS, settings.pollIntervalS])].sort((a, b) => a - b).map((s) => (
+              <option key={s} value={s}>{formatSeconds(s)}</option>
+            ))}
+          </select>
+        </label>
+      </section>
+
+      {/* 騎乘模式 */}
+      <section className="settings-card">
+        <h3>Ride mode</h3>
+        <label className="settings-row">
+          <span>
+            Warning distance
+            <small>Start warning when an active alert is this close.</small>
+          </span>
+          <select
+            value={settings.rideWarnDistanceM}
+            onChange={(e) => updateSettings({ rideWarnDistanceM: Number(e.target.value) })}
+          >
+            {RIDE_WARN_OPTIONS.map((m) => (
+              <option key={m} value={m}>{formatMeters(m)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="settings-row">
+          <span>
+            Warning sounds
+            <small>Beep as you get closer (vibration is always on).</small>
+          </span>
+          <input
+            type="checkbox"
+            checked={settings.rideSound}
+            onChange={(e) => updateSettings({ rideSound: e.target.checked })}
+          />
+        </label>
+      </section>
+
+      {/* 常用地點 / 通勤 */}
+      <section className="settings-card">
+        <h3>Places &amp; commutes</h3>
+        <p className="settings-hint">Save places like Home and Work and watch the risk on your regular trips.</p>
+        <Link to="/places" className="settings-btn outline">Manage places</Link>
+      </section>
+
+      {/* 背景推播 */}
+      <section className="settings-card">
+        <h3>Notifications</h3>
+        <div className="settings-row">
+          <span>
+            Hazard notifications
+            <small>Get warned about nearby alerts even when CycSafe is in your pocket.</small>
+          </span>
+          <strong className={`settings-status ${push.status}`}>{PUSH_LABELS[push.status]}</strong>
+        </div>
+        {push.error && <p className="settings-error">{push.error}</p>}
+        {(push.status === "off" || push.status === "on") && (
+          <button
+            type="button"
+            className={`settings-btn${push.status === "on" ? " outline" : ""}`}
+            disabled={push.busy}
+            onClick={push.status === "on" ? push.disable : push.enable}
+          >
+            {push.busy ? "Please wait…" : push.status === "on" ? "Turn off" : "Enable notifications"}
+          </button>
+        )}
+      </section>
+
+      {/* 風險門檻 */}
+      <form className="settings-card" onSubmit={saveThresholds}>
+        <h3>Risk thresholds</h3>
+        <p className="settings-hint">Risk scores range from 0 to 100.</p>
+        <label className="settings-row">
+          <span>Medium risk from</span>
+          <input type="number" min={0} max={100} value={medium} onChange={(e) => setMedium(e.target.value)} />
+        </label>
+        <label className="settings-row">
+          <span>High risk from</span>
+          <input type="number" min={0} max={100} value={high} onChange={(e) => setHigh(e.target.value)} />
+        </label>
+        {thresholdError && <p className="settings-error">{thresholdError}</p>}
+        <button type="submit" className="settings-btn">Save thresholds</button>
+      </form>
+
+      {/* 顯示 */}
+      <section className="settings-card">
+        <h3>Units</h3>
+        <div className="settings-row">
+          <span>Wind speed</span>
+          <div className="settings-toggle" role="radiogroup" aria-label="Wind speed unit">
+            {(["m/s", "km/h"] as SpeedUnit[]).map((u) => (
+              <button
+                key={u}
+                type="button"
+                role="radio"
+                aria-checked={settings.speedUnit === u}
+                className={settings.speedUnit === u ? "active" : ""}
+                onClick={() => updateSettings({ speedUnit: u })}
+              >
+                {u}
+              </button>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      {/* 預設位置 */}
+      <form className="settings-card" onSubmit={saveFallback}>
+        <h3>Default location</h3>
+        <p className="settings-hint">
+          Used when your device location is unavailable. Currently: <strong>{settings.fallbackLocation.label}</strong>
+        </p>
+        <input
+          type="text"
+          placeholder="Search an address or enter lat, lon"
+          value={place}
+          onChange={(e) => setPlace(e.target.value)}
+        />
+        {placeStatus === "error" && <p className="settings-error">{placeError}</p>}
+        <div className="settings-actions">
+          <button type="submit" className="settings-btn" disabled={placeStatus === "loading" || !place.trim()}>
+            {placeStatus === "loading" ? "Searching…" : "Set location"}
+          </button>
+          <button type="button" className="settings-btn outline" onClick={useCurrentAsFallback}>
+            Use current location
+          </button>
+        </div>
+      </form>
+
+      <button type="button" className="settings-reset" onClick={onReset}>
+        Reset to defaults
+      </button>
+    </main>
+  );
+}
@@ -1,42 +1,36 @@
 // src/services/alertsService.ts
 
-// ===== 型別（和 AlertTray / Header 對齊）=====
-export type AlertLite = {
-  clusterId: string;
-  incidentType: string;
-  status?: "pending" | "active";
-  reportCount?: number;
-  expiresAt: number;                // epoch seconds
-  severity?: "low" | "medium" | "high";
-  lat?: number;
-  lng?: number;
-  photoUrls?: string[];
-  ackCount?: number;
-
-  // weather / system 專用欄位
-  description?: string;
-  ackable?: boolean;                // 天氣請設 false
-};
-
-export type AlertsPayload = {
-  ok: boolean;
-  serverNow: number;
-  alerts: AlertLite[];
-};
+import {
+  getAlertRadiusM,
+  isRelevant,
+  parseAlertsPayload,
+  withDistance,
+  type AlertLite,
+} from "../lib/alerts";
+import { getActiveRoute, isOnRoute } from "../lib/activeRoute";
+import { emit, load, on, save } from "../lib/bus";
+import { getSettings } from "../lib/settings";
 
 // 後端 list-alerts（Clusters）
 const LIST_URL =
   import.meta.env.VITE_LIST_ALERTS_URL ||
   "https://7wijeaz2y64ixyvovqkhjoysya0lksii.lambda-url.ap-southeast-2.on.aws/";
 
-const REFRESH_MS = 60_000;
-
 let timer: number | undefined;
 let inflight: AbortController | null = null;
+let unsubs: Array<() => void> = [];
+let backend: AlertLite[] | null = null;  // 最近一次抓到的 clusters（null = 還沒抓到）
 
-// 綁同一個 handler，方便 removeEventListener
-const onMaybeChanged = () => { void fetchOnce(); };
-const onWeatherList  = () => { void fetchOnce(); };
+const refetch = () => { void fetchOnce(); };
+// 位置 / 本地天氣變了：只需要用上次的 clusters 重算距離與合併，不必重抓
+const republish = () => {
+  if (backend) publish(backend);
+};
+// 設定變更：輪詢間隔重新排程，半徑變了也要重算
+const onSettings = () => {
+  schedule();
+  void fetchOnce();
+};
 const onVisible = () => {
   if (document.visibilityState === "visible") void fetchOnce();
 };
@@ -45,12 +39,16 @@ export function startAlertsPolling() {
   // ✅ 先把任何舊的 interval / 監聽 / inflight 清乾淨，避免 abort 目前這次的抓取
   stopAlertsPolling();
 
-  // ✅ 建立新的輪詢
-  timer = window.setInterval(fetchOnce, REFRESH_MS);
+  // ✅ 建立新的輪詢（間隔取自設定）
+  schedule();
 
   // ✅ 註冊事件（可能變動時與回到前景時立即更新）
-  window.addEventListener("cs:alerts:maybeChanged", onMaybeChanged);
-  window.addEventListener("cs:weather:list", onWeatherList);
+  unsubs = [
+    on("alerts:maybeChanged", refetch),
+    on("weather:list", republish),
+    on("coords", republish),
+    on("settings", onSettings),
+  ];
   window.addEventListener("focus", onVisible);
   document.addEventListener("visibilitychange", onVisible);
 
@@ -62,8 +60,8 @@ export function stopAlertsPolling() {
   if (timer) window.clearInterval(timer);
   timer = undefined;
 
-  window.removeEventListener("cs:alerts:maybeChanged", onMaybeChanged);
-  window.removeEventListener("cs:weather:list", onWeatherList);
+  unsubs.forEach((off) => off());
+  unsubs = [];
   window.removeEventListener("focus", onVisible);
   document.removeEventListener("visibilitychange", onVisible);
 
@@ -73,6 +71,11 @@ export function stopAlertsPolling() {
   }
 }
 
+function schedule() {
+  if (timer) window.clearInterval(timer);
+  timer = window.setInterval(fetchOnce, getSettings().pollIntervalS * 1000);
+}
+
 async function fetchOnce() {
   try {
     // 取消上一個尚未完成的請求
@@ -81,53 +84,58 @@ async function fetchOnce() {
 
     // 1) 後端 clusters
     const res = await fetch(LIST_URL, { cache: "no-store", signal: inflight.signal });
-    const data: AlertsPayload = await res.json();
-    const backend = Array.isArray(data?.alerts) ? data.alerts : [];
-
-    // 2) 本地天氣（Home.tsx 會寫入 localStorage 並 dispatch cs:weather:list）
-    let weather: AlertLite[] = [];
-    try {
-      const raw = JSON.parse(localStorage.getItem("cs.weather.alerts") || "[]");
-      weather = Array.isArray(raw) ? raw : [];
-    } catch {
-      weather = [];
-    }
-
-    // 3) 合併 + 過濾未過期 + 去重（同 clusterId 保留 expiresAt 較大的）
-    const now = Math.floor(Date.now() / 1000);
-    const mergedRaw: AlertLite[] = [...backend, ...weather].filter(
-      a => Number(a?.expiresAt || 0) > now
-    );
-
-    const byId = new Map<string, AlertLite>();
-    for (const a of mergedRaw) {
-      const id = String(a?.clusterId || "");
-      if (!id) continue;
-      const prev = byId.get(id);
-      if (!prev) {
-        byId.set(id, a);
-      } else {
-        const keep = Number(a?.expiresAt || 0) >= Number(prev?.expiresAt || 0) ? a : prev;
-        byId.set(id, keep);
-      }
-    }
-
-    const merged = Array.from(byId.values());
-
-    // 4) 排序（剩餘時間長的在上；也可換 lastReportAt）
-    merged.sort((x, y) => Number(y?.expiresAt || 0) - Number(x?.expiresAt || 0));
-
-    // 5) 寫入 localStorage + 廣播
-    localStorage.setItem("cs.alerts.list", JSON.stringify(merged));
-    localStorage.setItem("cs.alerts.total", String(merged.length));
-    localStorage.setItem("cs.alerts.updatedAt", String(Date.now()));
-
-    window.dispatchEvent(new CustomEvent("cs:alerts", { detail: { total: merged.length } }));
-    window.dispatchEvent(new CustomEvent("cs:alerts:list", { detail: { list: merged } }));
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    backend = parseAlertsPayload(await res.json()).alerts;
+    save("alerts.updatedAt", Date.now()); // 只在真的抓到時更新（離線橫幅用）
+    publish(backend);
   } catch (e) {
-    if ((e as any)?.name === "AbortError") return; // 主動取消就忽略
+    if ((e as Error)?.name === "AbortError") return; // 主動取消就忽略
     console.error("load alerts failed", e);
   } finally {
     inflight = null;
   }
-}
\ No newline at end of file
+}
+
+/** 合併 clusters + 本地天氣，依目前位置 / 半徑 / 路線算好後寫入 store 並廣播 */
+function publish(backend: AlertLite[]) {
+  // 2) 本地天氣（weatherAlerts.ts 會寫入 weather.alerts 並發送 weather:list）
+  const weather = load("weather.alerts", []);
+
+  // 3) 合併 + 過濾未過期 + 去重（同 clusterId 保留 expiresAt 較大的）
+  const now = Math.floor(Date.now() / 1000);
+  const mergedRaw: AlertLite[] = [...backend, ...weather].filter(a => a.expiresAt > now);
+
+  const byId = new Map<string, AlertLite>();
+  for (const a of mergedRaw) {
+    const prev = byId.get(a.clusterId);
+    if (!prev) {
+      byId.set(a.clusterId, a);
+    } else {
+      const keep = a.expiresAt >= prev.expiresAt ? a : prev;
+      byId.set(a.clusterId, keep);
+    }
+  }
+
+  // 4) 距離：以目前位置計算；半徑外的排到後面，且不計入鈴鐺數（選定路線上的例外）
+  const here = load("coords") ?? null;
+  const radiusM = getAlertRadiusM();
+  const route = getActiveRoute();
+  const merged = Array.from(byId.values()).map(a => ({
+    ...withDistance(a, here),
+    onRoute: route && isOnRoute(a, route.path) ? true : undefined,
+  }));
+  const relevant = merged.filter(a => isRelevant(a, radiusM)).length;
+
+  // 5) 排序（半徑內優先，再依剩餘時間長的在上；也可換 lastReportAt）
+  merged.sort((x, y) =>
+    Number(isRelevant(y, radiusM)) - Number(isRelevant(x, radiusM)) ||
+    y.expiresAt - x.expiresAt
+  );
+
+  // 6) 寫入 store + 廣播（total 只算半徑內）
+  save("alerts.list", merged);
+  save("alerts.total", relevant);
+
+  emit("alerts:total", { total: relevant });
+  emit("alerts:list", { list: merged });
+}
@@ -0,0 +1,103 @@
+// src/services/pushService.ts
+// 把 service worker 傳來的推播 / 通知點擊接到前端（notify.ts、路由）；SW 由 main.tsx 註冊
+
+import { parseAlert } from "../lib/alerts";
+import { emit, load, on } from "../lib/bus";
+import { haversineM, type LatLon } from "../lib/geo";
+import { setCooldownUntil, triggerAlertNotification } from "../lib/notify";
+import { syncPushSubscription } from "../lib/push";
+import { getSettings } from "../lib/settings";
+import { MOVE_THRESHOLD_M } from "./riskService";
+
+const SYNC_DEBOUNCE_MS = 5000;      // 連續的位置 / 設定變動合併成一次
+
+let started = false;
+let unsubs: Array<() => void> = [];
+let syncTimer: number | undefined;
+let lastSynced: { coords: LatLon | null; radiusM: number } | null = null;
+
+const onMessage = (e: MessageEvent) => {
+  const d = e.data as { type?: string; alert?: unknown; cooldownUntil?: number; notified?: boolean; url?: string };
+  if (d?.type === "cs:push") {
+    if (typeof d.cooldownUntil === "number") setCooldownUntil(d.cooldownUntil);
+
+    const alert = parseAlert(d.alert);
+    if (!alert) return;
+    // 前景：SW 沒有顯示通知，交給 notify.ts（同一套冷卻 / 嚴重度）
+    if (!d.notified) triggerAlertNotification(alert);
+    // 新告警 → 請 alertsService 重抓
+    emit("alerts:maybeChanged");
+  }
+  if (d?.type === "cs:navigate" && typeof d.url === "string") {
+    navigateTo(d.url);
+  }
+};
+
+// 冷卻秒數要同步給 SW；半徑 / 位置變了才同步給後端
+// （coords 每次風險輪詢都會廣播，且跨分頁，不能每次都重送訂閱）
+const onSettings = () => {
+  postConfig();
+  scheduleSync();
+};
+const onCoords = () => {
+  scheduleSync();
+};
+
+export function startPushService() {
+  if (!("serviceWorker" in navigator)) return;
+  stopPushService();
+  started = true;
+
+  navigator.serviceWorker.addEventListener("message", onMessage);
+  unsubs = [on("settings", onSettings), on("coords", onCoords)];
+
+  void navigator.serviceWorker.ready.then(() => {
+    if (started) postConfig();
+  });
+}
+
+export function stopPushService() {
+  if (!("serviceWorker" in navigator)) return;
+  started = false;
+  navigator.serviceWorker.removeEventListener("message", onMessage);
+  unsubs.forEach((off) => off());
+  unsubs = [];
+  window.clearTimeout(syncTimer);
+  syncTimer = undefined;
+}
+
+/** 位置移動超過門檻或半徑改了，才（延遲）重送訂閱 */
+function scheduleSync() {
+  window.clearTimeout(syncTimer);
+  syncTimer = window.setTimeout(() => {
+    syncTimer = undefined;
+    const coords = load("coords") ?? null;
+    const radiusM = getSettings().alertRadiusM;
+    const moved =
+      !lastSynced ||
+      !coords !== !lastSynced.coords ||
+      (coords && lastSynced.coords && haversineM(coords, lastSynced.coords) >= MOVE_THRESHOLD_M);
+    if (!moved && lastSynced?.radiusM === radiusM) return;
+
+    const prev = lastSynced;
+    lastSynced = { coords, radiusM };
+    void syncPushSubscription().catch(() => {
+      lastSynced = prev; // 失敗就下次再試
+    });
+  }, SYNC_DEBOUNCE_MS);
+}
+
+function postConfig() {
+  navigator.serviceWorker.controller?.postMessage({
+    type: "cs:config",
+    cooldownS: getSettings().notifyCooldownS,
+  });
+}
+
+/** SPA 內切頁：BrowserRouter 會聽 popstate */
+function navigateTo(url: string) {
+  const u = new URL(url, location.origin);
+  if (u.origin !== location.origin) return;
+  window.history.pushState({}, "", u.pathname + u.search + u.hash);
+  window.dispatchEvent(new PopStateEvent("popstate"));
+}
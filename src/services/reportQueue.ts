@@ -0,0 +1,310 @@
+// src/services/reportQueue.ts
+// 離線回報佇列：回報先存 IndexedDB，再上傳照片 + 呼叫 createIncident；失敗就等連線恢復自動重試
+
+import { createIncident, getUploadUrl } from "../lib/api";
+import type { CreateIncidentPayload } from "../lib/api";
+import { emit } from "../lib/bus";
+import { resolveLga } from "../lib/geocode";
+import { idbDelete, idbGet, idbGetAll, idbPut, STORES } from "../lib/idb";
+
+// ===== 型別 =====
+export type QueueStatus = "queued" | "uploading" | "sent" | "failed";
+
+export type QueuedPhoto = {
+  blob: Blob;
+  name: string;
+  type: string;
+  hash: string;                     // 內容雜湊（當 idempotencyKey / 檔名）
+  key?: string;                     // 已上傳的 S3 key；有值就不再重傳
+};
+
+export type QueuedReport = {
+  id: string;
+  createdAt: number;                // epoch ms
+  payload: Omit<CreateIncidentPayload, "Picture">;
+  photos: QueuedPhoto[];
+  status: QueueStatus;
+  attempts: number;
+  lastError?: string;
+  incidentNo?: string;              // 送出成功後的 INCIDENT_NO
+  sentAt?: number;
+};
+
+const RETRY_MS = 30_000;
+const MAX_ATTEMPTS = 10;            // 超過就標 failed，等使用者手動重試
+const KEEP_SENT_MS = 24 * 60 * 60 * 1000; // 已送出的保留一天供查看
+
+let timer: number | undefined;
+let flushing: Promise<void> | null = null;
+const sending = new Set<string>();  // 正在送出的 id（避免前景送出與背景重試撞在一起）
+
+const onOnline = () => { void flushQueue(); };
+const onVisible = () => {
+  if (document.visibilityState === "visible") void flushQueue();
+};
+
+export function startReportQueue() {
+  stopReportQueue();
+
+  timer = window.setInterval(() => { void flushQueue(); }, RETRY_MS);
+  window.addEventListener("online", onOnline);
+  document.addEventListener("visibilitychange", onVisible);
+
+  // 啟動時先清掉舊的已送出紀錄，再試一次
+  void pruneSent().then(flushQueue);
+}
+
+export function stopReportQueue() {
+  if (timer) window.clearInterval(timer);
+  timer = undefined;
+  window.removeEventListener("online", onOnline);
+  document.removeEventListener("visibilitychange", onVisible);
+}
+
+/** 目前佇列（新的在前） */
+export async function listQueuedReports(): Promise<QueuedReport[]> {
+  try {
+    const all = await idbGetAll<QueuedReport>(STORES.reports);
+    return all.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (e) {
+    console.error("read report queue failed", e);
+    return [];
+  }
+}
+
+/** 加入佇列（照片應已規範化成 JPEG） */
+export async function enqueueReport(
+  payload: Omit<CreateIncidentPayload, "Picture">,
+  files: File[]
+): Promise<QueuedReport> {
+  const rec = await buildRecord(payload, files);
+  await save(rec);
+  return rec;
+}
+
+/**
+ * 回報頁送出：先進佇列、有網路就立即試送。
+ * IndexedDB 不能用（隱私模式、容量滿）時改為直接送出；這種情況沒有重試，失敗就丟錯。
+ */
+export async function submitReport(
+  payload: Omit<CreateIncidentPayload, "Picture">,
+  files: File[]
+): Promise<QueuedReport> {
+  let queued: QueuedReport;
+  try {
+    queued = await enqueueReport(payload, files);
+  } catch (e) {
+    console.warn("report queue unavailable, sending directly", e);
+    const rec = await attemptOnce(await buildRecord(payload, files), async () => {});
+    if (rec.status !== "sent") throw new Error(rec.lastError || "Failed to submit");
+    return rec;
+  }
+  if (!navigator.onLine) return queued;
+  return (await sendQueuedReport(queued.id)) ?? queued;
+}
+
+async function buildRecord(
+  payload: Omit<CreateIncidentPayload, "Picture">,
+  files: File[]
+): Promise<QueuedReport> {
+  const id = newId();
+  const photos: QueuedPhoto[] = [];
+  for (let i = 0; i < files.length; i++) {
+    const f = files[i];
+    photos.push({
+      blob: f,
+      name: f.name,
+      type: f.type || "image/jpeg",
+      hash: await hashBlob(f, `${id}-${i}`),
+    });
+  }
+
+  return {
+    id,
+    createdAt: Date.now(),
+    payload,
+    photos,
+    status: "queued",
+    attempts: 0,
+  };
+}
+
+/** 立即嘗試送出單筆；回傳最新狀態 */
+export async function sendQueuedReport(id: string): Promise<QueuedReport | undefined> {
+  const rec = await idbGet<QueuedReport>(STORES.reports, id);
+  if (!rec || rec.status === "sent") return rec;
+  return attempt(rec);
+}
+
+/** 使用者手動重試（包含已標 failed 的） */
+export async function retryReport(id: string) {
+  const rec = await idbGet<QueuedReport>(STORES.reports, id);
+  if (!rec || rec.status === "sent") return;
+  rec.attempts = 0;
+  rec.status = "queued";
+  await save(rec);
+  return attempt(rec);
+}
+
+export async function removeReport(id: string) {
+  await idbDelete(STORES.reports, id);
+  broadcast();
+}
+
+/** 依序送出所有 queued 的回報（同時間只跑一輪） */
+export function flushQueue(): Promise<void> {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    try {
+      if (!navigator.onLine) return;
+      const list = await listQueuedReports();
+      // 舊的先送；uploading 代表上次被中斷（例如關掉分頁），也一併重試
+      const pending = list
+        .filter((r) => r.status === "queued" || r.status === "uploading")
+        .reverse();
+      for (const rec of pending) {
+        const res = await attempt(rec);
+        if (res.status !== "sent" && !navigator.onLine) break; // 又斷線就等下一輪
+      }
+    } finally {
+      flushing = null;
+    }
+  })();
+  return flushing;
+}
+
+// ===== 內部 =====
+
+async function attempt(rec: QueuedReport): Promise<QueuedReport> {
+  if (sending.has(rec.id)) return rec;
+  sending.add(rec.id);
+  try {
+    const res = await withReportLock(rec.id, async () => {
+      // 手上的快照可能已過時（前景剛送出、其他分頁送完或刪掉）：重讀，只送還沒送出的
+      const fresh = await idbGet<QueuedReport>(STORES.reports, rec.id);
+      if (!fresh || (fresh.status !== "queued" && fresh.status !== "uploading")) return fresh ?? rec;
+      return attemptOnce(fresh);
+    });
+    // 拿不到鎖：其他分頁正在送這筆
+    return res ?? (await idbGet<QueuedReport>(STORES.reports, rec.id)) ?? rec;
+  } finally {
+    sending.delete(rec.id);
+  }
+}
+
+/**
+ * 跨分頁的單筆鎖（Web Locks）；別的分頁持有時不等待，回 null。
+ * 分頁關掉鎖就釋放，所以留在 uploading 的紀錄之後仍會被重試。不支援的瀏覽器只靠 sending 擋同分頁。
+ */
+async function withReportLock<T>(id: string, fn: () => Promise<T>): Promise<T | null> {
+  if (!navigator.locks) return fn();
+  return navigator.locks.request(`cs-report-${id}`, { ifAvailable: true }, (lock) => (lock ? fn() : null));
+}
+
+/** persist：每一步寫回佇列；直接送出（不經佇列）時傳空函式 */
+async function attemptOnce(rec: QueuedReport, persist = save): Promise<QueuedReport> {
+  rec.status = "uploading";
+  rec.attempts += 1;
+  rec.lastError = undefined;
+  await persist(rec);
+
+  try {
+    // 1) 照片：已有 key 的跳過；每張上傳完立即寫回，避免重試時重複上傳
+    for (const p of rec.photos) {
+      if (p.key) continue;
+      p.key = await uploadPhoto(p);
+      await persist(rec);
+    }
+
+    // 2) 離線時存的回報沒有 LGA：送出前補查一次（查不到就留空，不擋送出）
+    const { Latitude: lat, Longitude: lon } = rec.payload;
+    if (!rec.payload.LGA && lat != null && lon != null) {
+      const lga = await resolveLga({ lat, lon }).catch(() => undefined);
+      if (lga) {
+        rec.payload = { ...rec.payload, LGA: lga };
+        await persist(rec);
+      }
+    }
+
+    // 3) 建立事故
+    const res = await createIncident(
+      {
+        ...rec.payload,
+        Picture: rec.photos.map((p) => p.key!),
+      },
+      rec.id
+    );
+
+    rec.status = "sent";
+    rec.incidentNo = res.INCIDENT_NO;
+    rec.sentAt = Date.now();
+    rec.photos = rec.photos.map((p) => ({ ...p, blob: new Blob() })); // 送出後不用再留原圖
+    await persist(rec);
+
+    // 讓 alertsService 立刻抓新 clusters
+    emit("alerts:maybeChanged");
+  } catch (e) {
+    console.error("send report failed", e);
+    rec.lastError = (e as Error)?.message || "Failed to submit";
+    rec.status = rec.attempts >= MAX_ATTEMPTS ? "failed" : "queued";
+    await persist(rec);
+  }
+  return rec;
+}
+
+async function uploadPhoto(p: QueuedPhoto): Promise<string> {
+  const filename = `${p.hash}.jpg`;
+  const { url, key } = await getUploadUrl(filename, p.type, p.hash);
+
+  // 嘗試 1：帶 Content-Type
+  let put = await fetch(url, {
+    method: "PUT",
+    headers: { "Content-Type": p.type },
+    body: p.blob,
+  });
+
+  // 嘗試 2：有些預簽不允許帶 Content-Type；移除後重試
+  if (!put.ok) {
+    put = await fetch(url, { method: "PUT", body: p.blob });
+  }
+  if (!put.ok) throw new Error(`Upload failed: ${p.name} (${put.status})`);
+
+  return key;
+}
+
+async function pruneSent() {
+  const cutoff = Date.now() - KEEP_SENT_MS;
+  const list = await listQueuedReports();
+  for (const r of list) {
+    if (r.status === "sent" && (r.sentAt ?? r.createdAt) < cutoff) {
+      await idbDelete(STORES.reports, r.id).catch(() => undefined);
+    }
+  }
+  broadcast();
+}
+
+async function save(rec: QueuedReport) {
+  await idbPut(STORES.reports, rec);
+  broadcast();
+}
+
+function broadcast() {
+  emit("reports:queue");
+}
+
+function newId() {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return `r-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** SHA-256 內容雜湊；非安全環境（無 crypto.subtle）就用 fallback */
+async function hashBlob(blob: Blob, fallback: string): Promise<string> {
+  try {
+    const buf = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+    return Array.from(new Uint8Array(buf))
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("");
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,363 @@
+// src/services/rideService.ts
+// 騎乘模式：持續追蹤位置 + 螢幕常亮（Wake Lock），接近告警時透過 notify.ts 逐級警示；
+// 有選定路線時，騎在路線上只警示沿線的告警；結束後留下騎乘摘要，軌跡存進 IndexedDB（可匯出 GPX / GeoJSON）
+
+import { useSyncExternalStore } from "react";
+import { getActiveRoute, isOnRoute, type ActiveRoute } from "../lib/activeRoute";
+import { alertPosition, isWeather, titleOf, type AlertLite } from "../lib/alerts";
+import { emit, load, on } from "../lib/bus";
+import { distanceToPathM, haversineM, type LatLon } from "../lib/geo";
+import { idbDelete, idbGetAll, idbPut, STORES } from "../lib/idb";
+import { triggerProximityWarning, unlockSound, type ProximityStage } from "../lib/notify";
+import { getSettings } from "../lib/settings";
+import type { Track, Waypoint } from "../lib/tracks";
+
+export type RidePoint = LatLon & {
+  t: number;                        // epoch ms
+  speed?: number;                   // m/s（裝置有提供才有）
+  accuracy?: number;                // 公尺
+};
+
+/** 本次騎乘中觸發過的警示（每個告警只留最高等級） */
+export type RideWarning = {
+  alert: AlertLite;
+  stage: ProximityStage;
+  distanceM: number;                // 觸發最高等級時的距離
+  at: number;
+};
+
+export type RideState = {
+  status: "idle" | "riding" | "ended";
+  startedAt: number;
+  endedAt: number;
+  track: RidePoint[];
+  distanceM: number;
+  speedMs: number | null;           // 目前速度
+  maxSpeedMs: number;
+  nearest: { alert: AlertLite; distanceM: number } | null;
+  warnings: RideWarning[];
+  wakeLock: "on" | "off" | "unsupported";
+  route: Pick<ActiveRoute, "id" | "name" | "path"> | null; // 開始時選定的路線
+  offRoute: boolean;                // 離開路線（此時所有附近告警都會警示）
+  error?: string;
+};
+
+/** 存下來的騎乘紀錄 */
+export type SavedRide = {
+  id: string;
+  name: string;
+  startedAt: number;
+  endedAt: number;
+  distanceM: number;
+  maxSpeedMs: number;
+  track: RidePoint[];
+  warnings: RideWarning[];
+};
+
+const MAX_ACCURACY_M = 60;          // 精度比這差的點不算距離（避免亂跳）
+const MIN_STEP_M = 5;               // 小於這個位移當成原地抖動
+const REARM_FACTOR = 1.5;           // 離開警示距離 × 1.5 後，同一個告警可再次警示
+const MAX_SAVED_RIDES = 30;         // 超過就刪掉最舊的
+const OFF_ROUTE_M = 100;            // 離路線超過這個距離算偏離
+
+const IDLE: RideState = {
+  status: "idle",
+  startedAt: 0,
+  endedAt: 0,
+  track: [],
+  distanceM: 0,
+  speedMs: null,
+  maxSpeedMs: 0,
+  nearest: null,
+  warnings: [],
+  wakeLock: "off",
+  route: null,
+  offRoute: false,
+};
+
+let state: RideState = IDLE;
+let watchId: number | null = null;
+let wakeLock: WakeLockSentinel | null = null;
+let alerts: AlertLite[] = [];
+let onRouteIds = new Set<string>();     // 目前路線上的告警
+let offList: (() => void) | null = null;
+const fired = new Map<string, ProximityStage>(); // clusterId → 已觸發的最高等級
+
+const onVisible = () => {
+  // 切回前景時 wake lock 會被系統釋放，要重新取得
+  if (state.status === "riding" && document.visibilityState === "visible" && !wakeLock) void acquireWakeLock();
+};
+
+/** 開始騎乘（必須由點擊觸發：音效與 wake lock 都需要 user gesture） */
+export function startRide() {
+  if (!("geolocation" in navigator)) {
+    setState({ error: "Your browser does not support geolocation." });
+    return;
+  }
+  stopTracking();
+  fired.clear();
+  unlockSound();
+
+  const route = getActiveRoute();
+  setState({
+    ...IDLE,
+    status: "riding",
+    startedAt: Date.now(),
+    route: route && { id: route.id, name: route.name, path: route.path },
+  });
+
+  setAlerts(load("alerts.list", []));
+  offList = on("alerts:list", ({ list }) => setAlerts(list));
+  emit("alerts:maybeChanged");
+
+  watchId = navigator.geolocation.watchPosition(onPosition, onPositionError, {
+    enableHighAccuracy: true,
+    maximumAge: 2000,
+    timeout: 15000,
+  });
+  document.addEventListener("visibilitychange", onVisible);
+  void acquireWakeLock();
+}
+
+/** 結束騎乘，保留摘要（status = ended） */
+export function endRide() {
+  if (state.status !== "riding") return;
+  stopTracking();
+  setState({ status: "ended", endedAt: Date.now(), nearest: null, speedMs: null, offRoute: false });
+  if (state.track.length >= 2) void saveRide(state);
+}
+
+/** 看完摘要，回到初始畫面 */
+export function resetRide() {
+  stopTracking();
+  setState(IDLE);
+}
+
+export function getRideState(): RideState {
+  return state;
+}
+
+/** React hook：訂閱騎乘狀態 */
+export function useRide(): RideState {
+  return useSyncExternalStore(subscribe, getRideState);
+}
+
+// ===== 騎乘紀錄 =====
+
+/** 存過的騎乘（新的在前） */
+export async function listRides(): Promise<SavedRide[]> {
+  try {
+    const all = await idbGetAll<SavedRide>(STORES.rides);
+    return all.sort((a, b) => b.startedAt - a.startedAt);
+  } catch (e) {
+    console.error("read rides failed", e);
+    return [];
+  }
+}
+
+export async function deleteRide(id: string) {
+  await idbDelete(STORES.rides, id);
+  emit("rides");
+}
+
+/** 騎乘 → 軌跡檔內容：每個點帶時間 / 速度；起點、終點與經過的告警當成 waypoint */
+export function rideToTrack(ride: Pick<SavedRide, "name" | "track" | "warnings">): Track {
+  const { track } = ride;
+  const first = track[0];
+  const last = track[track.length - 1];
+
+  // 告警觸發當下的速度：取時間最接近的軌跡點
+  const speedAt = (t: number) => {
+    let best: RidePoint | undefined;
+    for (const p of track) if (!best || Math.abs(p.t - t) < Math.abs(best.t - t)) best = p;
+    return best?.speed;
+  };
+
+  const hazards: Waypoint[] = [...ride.warnings]
+    .sort((a, b) => a.at - b.at)
+    .flatMap((w) => {
+      const p = alertPosition(w.alert);
+      if (!p) return [];
+      return [{
+        lat: p.lat,
+        lon: p.lng,
+        name: titleOf(w.alert),
+        desc: `Stage ${w.stage} warning at ${Math.round(w.distanceM)} m${w.alert.severity ? ` · ${w.alert.severity} severity` : ""}`,
+        t: w.at,
+        speed: speedAt(w.at),
+        type: "hazard",
+      }];
+    });
+
+  return {
+    name: ride.name,
+    points: track.map(({ lat, lon, t, speed }) => ({ lat, lon, t, speed })),
+    waypoints: [
+      ...(first ? [{ lat: first.lat, lon: first.lon, name: "Start", t: first.t, speed: first.speed, type: "start" }] : []),
+      ...hazards,
+      ...(last && last !== first ? [{ lat: last.lat, lon: last.lon, name: "Finish", t: last.t, speed: last.speed, type: "finish" }] : []),
+    ],
+  };
+}
+
+export function rideName(startedAt: number) {
+  const d = new Date(startedAt);
+  return `Ride ${d.toLocaleDateString([], { day: "numeric", month: "short" })} ${d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+async function saveRide(s: RideState) {
+  const rec: SavedRide = {
+    id: `ride-${s.startedAt}`,
+    name: rideName(s.startedAt),
+    startedAt: s.startedAt,
+    endedAt: s.endedAt,
+    distanceM: s.distanceM,
+    maxSpeedMs: s.maxSpeedMs,
+    track: s.track,
+    warnings: s.warnings,
+  };
+  try {
+    await idbPut(STORES.rides, rec);
+    const all = await listRides();
+    for (const old of all.slice(MAX_SAVED_RIDES)) await idbDelete(STORES.rides, old.id);
+    emit("rides");
+  } catch (e) {
+    console.error("save ride failed", e);
+  }
+}
+
+// ===== 內部 =====
+
+function subscribe(cb: () => void) {
+  return on("ride", cb);
+}
+
+function setState(patch: Partial<RideState>) {
+  state = { ...state, ...patch };
+  emit("ride", state);
+}
+
+function stopTracking() {
+  if (watchId != null) navigator.geolocation.clearWatch(watchId);
+  watchId = null;
+  offList?.();
+  offList = null;
+  document.removeEventListener("visibilitychange", onVisible);
+  void wakeLock?.release().catch(() => undefined);
+  wakeLock = null;
+}
+
+function setAlerts(list: AlertLite[]) {
+  const nowS = Date.now() / 1000;
+  alerts = list.filter((a) => !isWeather(a) && a.expiresAt > nowS && alertPosition(a) != null);
+  const path = state.route?.path;
+  onRouteIds = new Set(path ? alerts.filter((a) => isOnRoute(a, path)).map((a) => a.clusterId) : []);
+}
+
+function onPosition(pos: GeolocationPosition) {
+  if (state.status !== "riding") return;
+  const { latitude: lat, longitude: lon, speed, accuracy } = pos.coords;
+  const point: RidePoint = {
+    lat,
+    lon,
+    t: pos.timestamp || Date.now(),
+    speed: speed ?? undefined,
+    accuracy,
+  };
+
+  // 距離 / 速度：只用精度夠的點
+  const prev = state.track[state.track.length - 1];
+  let distanceM = state.distanceM;
+  let speedMs = speed ?? null;
+  const track = [...state.track];
+  if (accuracy <= MAX_ACCURACY_M) {
+    const step = prev ? haversineM(prev, point) : 0;
+    if (!prev || step >= MIN_STEP_M) {
+      distanceM += step;
+      if (speedMs == null && prev && point.t > prev.t) speedMs = step / ((point.t - prev.t) / 1000);
+      track.push(point);
+    }
+  }
+
+  setState({
+    track,
+    distanceM,
+    speedMs,
+    maxSpeedMs: Math.max(state.maxSpeedMs, speedMs ?? 0),
+    error: undefined,
+    ...checkProximity({ lat, lon }),
+  });
+}
+
+function onPositionError(err: GeolocationPositionError) {
+  setState({
+    error:
+      err.code === err.PERMISSION_DENIED
+        ? "Location permission is needed for ride mode."
+        : "Waiting for a GPS fix…",
+  });
+}
+
+function stageFor(d: number, warnM: number): ProximityStage | 0 {
+  if (d <= warnM * 0.25) return 3;
+  if (d <= warnM * 0.5) return 2;
+  if (d <= warnM) return 1;
+  return 0;
+}
+
+/** 找最近的告警；進入更高等級才警示（騎在選定路線上時只看沿線的告警） */
+function checkProximity(here: LatLon): Pick<RideState, "nearest" | "warnings" | "offRoute"> {
+  const warnM = getSettings().rideWarnDistanceM;
+  let nearest: RideState["nearest"] = null;
+  let warnings = state.warnings;
+  const offRoute = state.route != null && distanceToPathM(here, state.route.path) > OFF_ROUTE_M;
+  const watched = state.route && !offRoute ? alerts.filter((a) => onRouteIds.has(a.clusterId)) : alerts;
+
+  for (const a of watched) {
+    const p = alertPosition(a)!;
+    const d = haversineM(here, { lat: p.lat, lon: p.lng });
+    if (!nearest || d < nearest.distanceM) nearest = { alert: a, distanceM: Math.round(d) };
+
+    const stage = stageFor(d, warnM);
+    const prevStage = fired.get(a.clusterId) ?? 0;
+    if (stage === 0) {
+      if (d > warnM * REARM_FACTOR) fired.delete(a.clusterId);
+      continue;
+    }
+    if (stage <= prevStage) continue;
+
+    fired.set(a.clusterId, stage);
+    triggerProximityWarning(a, Math.round(d), stage);
+    // 重新接近（rearm）時等級可能比之前低：摘要保留最高的那次
+    const prevWarning = warnings.find((x) => x.alert.clusterId === a.clusterId);
+    if (!prevWarning || stage > prevWarning.stage) {
+      const w: RideWarning = { alert: a, stage, distanceM: Math.round(d), at: Date.now() };
+      warnings = [...warnings.filter((x) => x !== prevWarning), w];
+    }
+  }
+
+  return { nearest, warnings, offRoute };
+}
+
+async function acquireWakeLock() {
+  if (!("wakeLock" in navigator)) {
+    setState({ wakeLock: "unsupported" });
+    return;
+  }
+  try {
+    const lock = await navigator.wakeLock.request("screen");
+    if (state.status !== "riding") {
+      void lock.release(); // 取得前騎乘已經結束
+      return;
+    }
+    wakeLock = lock;
+    setState({ wakeLock: "on" });
+    lock.addEventListener("release", () => {
+      wakeLock = null;
+      if (state.status === "riding") setState({ wakeLock: "off" });
+    });
+  } catch (e) {
+    console.warn("wake lock failed", e);
+    setState({ wakeLock: "off" });
+  }
+}
@@ -0,0 +1,246 @@
+// src/services/riskService.ts
+// 共用風險服務：擁有目前位置、輪詢風險 Lambda（同座標的請求合併）、快取最新結果；Home / RiskHeaderCard / AlertsPage 都訂閱這裡
+
+import { useSyncExternalStore } from "react";
+import { emit, load, on, save } from "../lib/bus";
+import type { LatLon } from "../lib/geo";
+import { haversineM } from "../lib/geo";
+import { triggerRiskAlert, type Severity } from "../lib/notify";
+import { readLastRisk, saveLastRisk } from "../lib/offline";
+import { fetchRiskAt, riskSeverity, type RiskResponse } from "../lib/risk";
+import { getSettings } from "../lib/settings";
+import { publishWeatherFromRisk } from "../lib/weatherAlerts";
+
+/** 位置來源：gps = 裝置定位；manual = 使用者指定；saved = 上次存的；fallback = 設定的預設位置 */
+export type LocationSource = "gps" | "manual" | "saved" | "fallback";
+
+export type RiskState = {
+  coords: LatLon;
+  source: LocationSource;
+  data: RiskResponse | null;        // 最新一次成功的結果（冷啟動時為上次存的）
+  status: "idle" | "loading" | "ready" | "error";
+  error?: string;
+  updatedAt: number;                // data 的時間（epoch ms；0 = 從未成功）
+};
+
+export const MOVE_THRESHOLD_M = 50;        // GPS 移動超過才重抓，避免 watchPosition 洗版
+
+let state: RiskState = initialState();
+let timer: number | undefined;
+let watchId: number | null = null;
+let inflight: { key: string; promise: Promise<void>; ac: AbortController } | null = null;
+let lastNotified: Severity = "none";
+let offSettings: (() => void) | null = null;
+
+const onVisible = () => {
+  if (document.visibilityState !== "visible") return;
+  // 回到前景：超過一個輪詢間隔沒更新才重抓
+  if (Date.now() - state.updatedAt >= getSettings().pollIntervalS * 1000) void refreshRisk();
+};
+const onOnline = () => { void refreshRisk(); };
+const onSettings = () => {
+  schedule();
+  // 門檻可能改了：用新門檻重算一次通知嚴重度（不重抓）
+  if (state.data) lastNotified = riskSeverity(state.data.risk);
+  // 正在用預設位置、而預設位置改了 → 換過去
+  const fb = getSettings().fallbackLocation;
+  if (state.source === "fallback" && (fb.lat !== state.coords.lat || fb.lon !== state.coords.lon)) {
+    void setRiskLocation(fb, "fallback");
+  }
+};
+
+export function startRiskService() {
+  stopRiskService();
+
+  schedule();
+  window.addEventListener("focus", onVisible);
+  window.addEventListener("online", onOnline);
+  offSettings = on("settings", onSettings);
+  document.addEventListener("visibilitychange", onVisible);
+
+  void refreshRisk();
+  void followGpsIfGranted();
+}
+
+export function stopRiskService() {
+  if (timer) window.clearInterval(timer);
+  timer = undefined;
+  stopWatch();
+
+  window.removeEventListener("focus", onVisible);
+  window.removeEventListener("online", onOnline);
+  offSettings?.();
+  offSettings = null;
+  document.removeEventListener("visibilitychange", onVisible);
+
+  if (inflight) {
+    inflight.ac.abort();
+    inflight = null;
+  }
+}
+
+export function getRiskState(): RiskState {
+  return state;
+}
+
+/** 指定位置並立刻重抓；manual 會停止跟隨 GPS（直到再次用 gps 設定） */
+export function setRiskLocation(c: LatLon, source: LocationSource = "manual") {
+  if (source === "manual") stopWatch();
+  setState({ coords: { lat: c.lat, lon: c.lon }, source });
+  return refreshRisk();
+}
+
+/** 已授權定位時，靜默取得一次位置（不跳權限詢問）；成功回 true */
+export async function locateSilently(): Promise<boolean> {
+  if (!(await geolocationGranted())) return false;
+  return new Promise<boolean>((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        void setRiskLocation({ lat: pos.coords.latitude, lon: pos.coords.longitude }, "gps");
+        startWatch();
+        resolve(true);
+      },
+      () => resolve(false),
+      { enableHighAccuracy: true, timeout: 8000, maximumAge: 5000 }
+    );
+  });
+}
+
+/** 抓目前位置的風險；同一座標已在抓就共用同一個請求 */
+export function refreshRisk(): Promise<void> {
+  const { lat, lon } = state.coords;
+  const key = `${lat.toFixed(5)},${lon.toFixed(5)}`;
+  if (inflight?.key === key) return inflight.promise;
+  if (inflight) inflight.ac.abort(); // 位置換了，舊的結果沒用
+
+  const ac = new AbortController();
+  setState({ status: "loading", error: undefined });
+
+  const promise = (async () => {
+    try {
+      const data = await fetchRiskAt(lat, lon, ac.signal);
+      if (ac.signal.aborted) return;
+      const address = data.address || `${lat.toFixed(5)}, ${lon.toFixed(5)}`;
+      setState({ data: { ...data, address }, status: "ready", updatedAt: Date.now() });
+
+      broadcastAddressAndCoords(address, lat, lon);
+      saveLastRisk({ risk: data.risk, riskText: data.riskText, address, lat, lon });
+      // ⭐ 天氣同步到鈴鐺
+      publishWeatherFromRisk(data.riskText, address, lat, lon, data.weather);
+      notifyIfRising(data.risk);
+    } catch (e) {
+      if ((e as Error)?.name === "AbortError") return;
+      console.error("fetch risk failed:", e);
+      setState({ status: "error", error: (e as Error)?.message || "Failed to load risk" });
+      // 離線：保留上次的地址與風險，不要用座標蓋掉
+      if (navigator.onLine && !state.data) {
+        broadcastAddressAndCoords(`${lat.toFixed(5)}, ${lon.toFixed(5)}`, lat, lon);
+      }
+    } finally {
+      if (inflight?.ac === ac) inflight = null;
+    }
+  })();
+
+  inflight = { key, promise, ac };
+  return promise;
+}
+
+/** React hook：訂閱風險狀態 */
+export function useRisk(): RiskState {
+  return useSyncExternalStore(subscribe, getRiskState);
+}
+
+// ===== 內部 =====
+
+function subscribe(cb: () => void) {
+  return on("risk", cb);
+}
+
+function setState(patch: Partial<RiskState>) {
+  state = { ...state, ...patch };
+  emit("risk", state);
+}
+
+function initialState(): RiskState {
+  const last = readLastRisk();
+  const coords = load("coords");
+  const fb = getSettings().fallbackLocation;
+  return {
+    coords: coords ?? { lat: fb.lat, lon: fb.lon },
+    source: coords ? "saved" : "fallback",
+    data: last
+      ? { ok: true, risk: last.risk, riskText: last.riskText, address: last.address, lat: last.lat, lon: last.lon }
+      : null,
+    status: "idle",
+    updatedAt: last?.at ?? 0,
+  };
+}
+
+function schedule() {
+  if (timer) window.clearInterval(timer);
+  timer = window.setInterval(() => {
+    if (document.visibilityState === "visible") void refreshRisk();
+  }, getSettings().pollIntervalS * 1000);
+}
+
+// 寫入 store 並廣播（Header / alertsService / MapPage 會聽）；沒變就不廣播，避免每次輪詢都讓各分頁重算
+function broadcastAddressAndCoords(addr: string, lat: number, lon: number) {
+  if (load("address") !== addr) {
+    save("address", addr);
+    emit("address", addr);
+  }
+  const prev = load("coords");
+  if (prev?.lat !== lat || prev?.lon !== lon) {
+    save("coords", { lat, lon });
+    emit("coords", { lat, lon });
+  }
+}
+
+// 🔔 嚴重度上升才通知（降下來後再上升會再通知，冷卻由 notify.ts 控制）
+function notifyIfRising(level: number) {
+  const sev = riskSeverity(level);
+  const rank = (s: Severity) => (s === "none" ? 0 : s === "medium" ? 1 : 2);
+  if (rank(sev) > rank(lastNotified)) {
+    triggerRiskAlert(
+      sev,
+      sev === "high"
+        ? "Risk is HIGH in your area. Ride with EXTREME caution."
+        : "Risk is MEDIUM in your area. Ride with caution."
+    );
+  }
+  lastNotified = sev;
+}
+
+async function geolocationGranted() {
+  if (!("geolocation" in navigator)) return false;
+  try {
+    const perm = await navigator.permissions?.query({ name: "geolocation" as PermissionName });
+    return perm?.state === "granted";
+  } catch {
+    return false;
+  }
+}
+
+async function followGpsIfGranted() {
+  if (state.source === "manual") return;
+  await locateSilently();
+}
+
+function startWatch() {
+  if (watchId != null || !("geolocation" in navigator)) return;
+  watchId = navigator.geolocation.watchPosition(
+    (p) => {
+      const next = { lat: p.coords.latitude, lon: p.coords.longitude };
+      if (state.source === "manual") return;
+      if (state.source === "gps" && haversineM(state.coords, next) < MOVE_THRESHOLD_M) return;
+      void setRiskLocation(next, "gps");
+    },
+    (err) => console.warn("watchPosition error:", err),
+    { maximumAge: 10000, timeout: 8000 }
+  );
+}
+
+function stopWatch() {
+  if (watchId != null) navigator.geolocation.clearWatch(watchId);
+  watchId = null;
+}